@@ -81,6 +81,28 @@ variable "public_badges" {
   default     = "true"
 }
 
+variable "allow_pact_overwrite" {
+  description = "Whether a consumer version may be republished with different pact content. 'true' allows it for every consumer, a comma-separated list of pacticipant names allows it for those only, anything else rejects it with 409."
+  type        = string
+  default     = "false"
+}
+
+variable "pact_sha_ignored_metadata" {
+  description = "Comma-separated dot paths under a pact's metadata to exclude from its content SHA, in addition to the built-in library-version keys (pactRust, pact-js, pact-jvm, ...). Run POST /admin/recompute-content-shas after changing it."
+  type        = string
+  default     = ""
+}
+
+variable "can_i_deploy_http_status" {
+  description = "Default HTTP status mapping for /can-i-deploy when a request has no httpStatus parameter. 'by-result' answers 409 (failed) or 425 (results unknown) when not deployable; 'always-200' always answers 200."
+  type        = string
+  default     = "always-200"
+  validation {
+    condition     = contains(["always-200", "by-result"], var.can_i_deploy_http_status)
+    error_message = "can_i_deploy_http_status must be \"always-200\" or \"by-result\"."
+  }
+}
+
 # ─── Cloudflare Access (opt-in, default OFF) ─────────────────────
 # When access_policy_mode == "" the Access application + policy
 # resources in infra/access.tf are NOT provisioned and the broker
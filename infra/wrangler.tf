@@ -71,6 +71,9 @@ resource "local_file" "wrangler_config" {
     allow_public_read             = var.allow_public_read
     cors_allowed_origins          = var.cors_allowed_origins
     public_badges                 = var.public_badges
+    allow_pact_overwrite          = var.allow_pact_overwrite
+    pact_sha_ignored_metadata     = var.pact_sha_ignored_metadata
+    can_i_deploy_http_status      = var.can_i_deploy_http_status
     mutating_rate_limit_threshold = var.mutating_rate_limit_threshold
     read_rate_limit_threshold     = var.read_rate_limit_threshold
   })
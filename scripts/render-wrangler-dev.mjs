@@ -20,6 +20,9 @@ const vars = {
   allow_public_read: process.env.ALLOW_PUBLIC_READ ?? "false",
   cors_allowed_origins: process.env.CORS_ALLOWED_ORIGINS ?? "",
   public_badges: process.env.PUBLIC_BADGES ?? "true",
+  allow_pact_overwrite: process.env.ALLOW_PACT_OVERWRITE ?? "false",
+  pact_sha_ignored_metadata: process.env.PACT_SHA_IGNORED_METADATA ?? "",
+  can_i_deploy_http_status: process.env.CAN_I_DEPLOY_HTTP_STATUS ?? "always-200",
   // Workers Rate Limiting thresholds (period is fixed at 60 s in the
   // template). Defaults match the previous zone-level ruleset.
   mutating_rate_limit_threshold: process.env.MUTATING_RATE_LIMIT_THRESHOLD ?? "60",
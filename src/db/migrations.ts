@@ -1,17 +1,27 @@
 import type { SqliteRemoteDatabase } from "drizzle-orm/sqlite-proxy";
 
-// SQL migrations to run in the Durable Object constructor
-// These are idempotent (use IF NOT EXISTS)
-const migrations = [
-  // v1: Initial schema
-  `CREATE TABLE IF NOT EXISTS pacticipants (
+interface Migration {
+  name: string;
+  statements: string[];
+}
+
+// SQL migrations to run in the Durable Object constructor.
+// Each migration runs once, in its own transaction, and is recorded in
+// schema_migrations. v1-v3 predate that bookkeeping and are idempotent (use
+// IF NOT EXISTS) because existing databases replay them once on upgrade.
+// Append new migrations; never edit one that has shipped.
+const migrations: Migration[] = [
+  {
+    name: "v1_initial_schema",
+    statements: [
+      `CREATE TABLE IF NOT EXISTS pacticipants (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     name TEXT NOT NULL UNIQUE,
     created_at TEXT NOT NULL DEFAULT (datetime('now'))
   )`,
-  `CREATE INDEX IF NOT EXISTS pacticipants_name_idx ON pacticipants(name)`,
+      `CREATE INDEX IF NOT EXISTS pacticipants_name_idx ON pacticipants(name)`,
 
-  `CREATE TABLE IF NOT EXISTS versions (
+      `CREATE TABLE IF NOT EXISTS versions (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     pacticipant_id INTEGER NOT NULL REFERENCES pacticipants(id) ON DELETE CASCADE,
     number TEXT NOT NULL,
@@ -20,18 +30,18 @@ const migrations = [
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
     UNIQUE(pacticipant_id, number)
   )`,
-  `CREATE INDEX IF NOT EXISTS versions_pacticipant_id_idx ON versions(pacticipant_id)`,
+      `CREATE INDEX IF NOT EXISTS versions_pacticipant_id_idx ON versions(pacticipant_id)`,
 
-  `CREATE TABLE IF NOT EXISTS tags (
+      `CREATE TABLE IF NOT EXISTS tags (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     version_id INTEGER NOT NULL REFERENCES versions(id) ON DELETE CASCADE,
     name TEXT NOT NULL,
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
     UNIQUE(version_id, name)
   )`,
-  `CREATE INDEX IF NOT EXISTS tags_name_idx ON tags(name)`,
+      `CREATE INDEX IF NOT EXISTS tags_name_idx ON tags(name)`,
 
-  `CREATE TABLE IF NOT EXISTS pacts (
+      `CREATE TABLE IF NOT EXISTS pacts (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     consumer_version_id INTEGER NOT NULL REFERENCES versions(id) ON DELETE CASCADE,
     provider_id INTEGER NOT NULL REFERENCES pacticipants(id) ON DELETE CASCADE,
@@ -40,10 +50,10 @@ const migrations = [
     created_at TEXT NOT NULL DEFAULT (datetime('now')),
     UNIQUE(consumer_version_id, provider_id)
   )`,
-  `CREATE INDEX IF NOT EXISTS pacts_provider_id_idx ON pacts(provider_id)`,
-  `CREATE INDEX IF NOT EXISTS pacts_content_sha_idx ON pacts(content_sha)`,
+      `CREATE INDEX IF NOT EXISTS pacts_provider_id_idx ON pacts(provider_id)`,
+      `CREATE INDEX IF NOT EXISTS pacts_content_sha_idx ON pacts(content_sha)`,
 
-  `CREATE TABLE IF NOT EXISTS verifications (
+      `CREATE TABLE IF NOT EXISTS verifications (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     pact_id INTEGER NOT NULL REFERENCES pacts(id) ON DELETE CASCADE,
     provider_version_id INTEGER NOT NULL REFERENCES versions(id) ON DELETE CASCADE,
@@ -51,34 +61,44 @@ const migrations = [
     build_url TEXT,
     verified_at TEXT NOT NULL DEFAULT (datetime('now'))
   )`,
-  `CREATE INDEX IF NOT EXISTS verifications_pact_id_idx ON verifications(pact_id)`,
-  `CREATE INDEX IF NOT EXISTS verifications_provider_version_idx ON verifications(provider_version_id)`,
+      `CREATE INDEX IF NOT EXISTS verifications_pact_id_idx ON verifications(pact_id)`,
+      `CREATE INDEX IF NOT EXISTS verifications_provider_version_idx ON verifications(provider_version_id)`,
+    ],
+  },
 
   // v2: Add mainBranch to pacticipants, environments and deployed_versions tables
-  `ALTER TABLE pacticipants ADD COLUMN main_branch TEXT DEFAULT 'main'`,
+  {
+    name: "v2_environments",
+    statements: [
+      `ALTER TABLE pacticipants ADD COLUMN main_branch TEXT DEFAULT 'main'`,
 
-  `CREATE TABLE IF NOT EXISTS environments (
+      `CREATE TABLE IF NOT EXISTS environments (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     name TEXT NOT NULL UNIQUE,
     display_name TEXT,
     production INTEGER DEFAULT 0,
     created_at TEXT NOT NULL DEFAULT (datetime('now'))
   )`,
-  `CREATE INDEX IF NOT EXISTS environments_name_idx ON environments(name)`,
+      `CREATE INDEX IF NOT EXISTS environments_name_idx ON environments(name)`,
 
-  `CREATE TABLE IF NOT EXISTS deployed_versions (
+      `CREATE TABLE IF NOT EXISTS deployed_versions (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     version_id INTEGER NOT NULL REFERENCES versions(id) ON DELETE CASCADE,
     environment_id INTEGER NOT NULL REFERENCES environments(id) ON DELETE CASCADE,
     deployed_at TEXT NOT NULL DEFAULT (datetime('now')),
     undeployed_at TEXT
   )`,
-  `CREATE INDEX IF NOT EXISTS deployed_versions_env_idx ON deployed_versions(environment_id)`,
-  `CREATE INDEX IF NOT EXISTS deployed_versions_version_idx ON deployed_versions(version_id)`,
-  `CREATE UNIQUE INDEX IF NOT EXISTS deployed_versions_version_env_idx ON deployed_versions(version_id, environment_id)`,
+      `CREATE INDEX IF NOT EXISTS deployed_versions_env_idx ON deployed_versions(environment_id)`,
+      `CREATE INDEX IF NOT EXISTS deployed_versions_version_idx ON deployed_versions(version_id)`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS deployed_versions_version_env_idx ON deployed_versions(version_id, environment_id)`,
+    ],
+  },
 
   // v3: Webhooks + delivery log
-  `CREATE TABLE IF NOT EXISTS webhooks (
+  {
+    name: "v3_webhooks",
+    statements: [
+      `CREATE TABLE IF NOT EXISTS webhooks (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     consumer_id INTEGER REFERENCES pacticipants(id) ON DELETE CASCADE,
     provider_id INTEGER REFERENCES pacticipants(id) ON DELETE CASCADE,
@@ -91,10 +111,10 @@ const migrations = [
     description TEXT,
     created_at TEXT NOT NULL DEFAULT (datetime('now'))
   )`,
-  `CREATE INDEX IF NOT EXISTS webhooks_consumer_idx ON webhooks(consumer_id)`,
-  `CREATE INDEX IF NOT EXISTS webhooks_provider_idx ON webhooks(provider_id)`,
+      `CREATE INDEX IF NOT EXISTS webhooks_consumer_idx ON webhooks(consumer_id)`,
+      `CREATE INDEX IF NOT EXISTS webhooks_provider_idx ON webhooks(provider_id)`,
 
-  `CREATE TABLE IF NOT EXISTS webhook_executions (
+      `CREATE TABLE IF NOT EXISTS webhook_executions (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     webhook_id INTEGER NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
     event TEXT NOT NULL,
@@ -108,34 +128,310 @@ const migrations = [
     error TEXT,
     executed_at TEXT NOT NULL DEFAULT (datetime('now'))
   )`,
-  `CREATE INDEX IF NOT EXISTS webhook_executions_webhook_idx ON webhook_executions(webhook_id)`,
-  `CREATE INDEX IF NOT EXISTS webhook_executions_executed_at_idx ON webhook_executions(executed_at)`,
+      `CREATE INDEX IF NOT EXISTS webhook_executions_webhook_idx ON webhook_executions(webhook_id)`,
+      `CREATE INDEX IF NOT EXISTS webhook_executions_executed_at_idx ON webhook_executions(executed_at)`,
+    ],
+  },
+
+  // v4: Store pact content once per SHA in pact_versions. pacts becomes the
+  // join from a consumer version to the pact version it published, and
+  // verifications move from the publication to the pact version. Both
+  // tables are rebuilt so the old columns and constraints go away;
+  // verifications is rebuilt first because it references pacts.
+  {
+    name: "v4_pact_versions",
+    statements: [
+      `CREATE TABLE pact_versions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        consumer_id INTEGER NOT NULL REFERENCES pacticipants(id) ON DELETE CASCADE,
+        provider_id INTEGER NOT NULL REFERENCES pacticipants(id) ON DELETE CASCADE,
+        sha TEXT NOT NULL UNIQUE,
+        content TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )`,
+      `CREATE INDEX pact_versions_provider_consumer_idx ON pact_versions(provider_id, consumer_id)`,
+      // One row per SHA, keeping the content and timestamp of its first publication.
+      `INSERT INTO pact_versions (consumer_id, provider_id, sha, content, created_at)
+        SELECT v.pacticipant_id, p.provider_id, p.content_sha, p.content, MIN(p.created_at)
+        FROM pacts p
+        JOIN versions v ON v.id = p.consumer_version_id
+        GROUP BY p.content_sha`,
+
+      `CREATE TABLE verifications_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        pact_version_id INTEGER NOT NULL REFERENCES pact_versions(id) ON DELETE CASCADE,
+        provider_version_id INTEGER NOT NULL REFERENCES versions(id) ON DELETE CASCADE,
+        success INTEGER NOT NULL,
+        build_url TEXT,
+        verified_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )`,
+      `INSERT INTO verifications_new (id, pact_version_id, provider_version_id, success, build_url, verified_at)
+        SELECT vr.id, pv.id, vr.provider_version_id, vr.success, vr.build_url, vr.verified_at
+        FROM verifications vr
+        JOIN pacts p ON p.id = vr.pact_id
+        JOIN pact_versions pv ON pv.sha = p.content_sha`,
+      `DROP TABLE verifications`,
+      `ALTER TABLE verifications_new RENAME TO verifications`,
+      `CREATE INDEX verifications_pact_version_idx ON verifications(pact_version_id)`,
+      `CREATE INDEX verifications_provider_version_idx ON verifications(provider_version_id)`,
+
+      `CREATE TABLE pacts_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        consumer_version_id INTEGER NOT NULL REFERENCES versions(id) ON DELETE CASCADE,
+        provider_id INTEGER NOT NULL REFERENCES pacticipants(id) ON DELETE CASCADE,
+        pact_version_id INTEGER NOT NULL REFERENCES pact_versions(id) ON DELETE CASCADE,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        UNIQUE(consumer_version_id, provider_id)
+      )`,
+      `INSERT INTO pacts_new (id, consumer_version_id, provider_id, pact_version_id, created_at)
+        SELECT p.id, p.consumer_version_id, p.provider_id, pv.id, p.created_at
+        FROM pacts p
+        JOIN pact_versions pv ON pv.sha = p.content_sha`,
+      `DROP TABLE pacts`,
+      `ALTER TABLE pacts_new RENAME TO pacts`,
+      `CREATE INDEX pacts_provider_id_idx ON pacts(provider_id)`,
+      `CREATE INDEX pacts_pact_version_idx ON pacts(pact_version_id)`,
+    ],
+  },
+
+  // v5: Record whether a verification ran while its pact was still pending
+  {
+    name: "v5_verification_pending",
+    statements: [`ALTER TABLE verifications ADD COLUMN pending INTEGER NOT NULL DEFAULT 0`],
+  },
+  {
+    name: "v6_can_i_deploy_decisions",
+    statements: [
+      `CREATE TABLE IF NOT EXISTS can_i_deploy_decisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    pacticipant TEXT NOT NULL,
+    version TEXT NOT NULL,
+    to_tag TEXT,
+    environment TEXT,
+    batch TEXT,
+    deployable INTEGER NOT NULL,
+    reason TEXT NOT NULL,
+    matrix TEXT NOT NULL,
+    caller TEXT,
+    request_id TEXT,
+    decided_at TEXT NOT NULL DEFAULT (datetime('now'))
+  )`,
+      `CREATE INDEX IF NOT EXISTS can_i_deploy_decisions_pacticipant_version_idx ON can_i_deploy_decisions(pacticipant, version)`,
+      `CREATE INDEX IF NOT EXISTS can_i_deploy_decisions_environment_idx ON can_i_deploy_decisions(environment)`,
+      `CREATE INDEX IF NOT EXISTS can_i_deploy_decisions_decided_at_idx ON can_i_deploy_decisions(decided_at)`,
+    ],
+  },
+
+  // v7: Pacticipant metadata managed through PUT/PATCH /pacticipants/:name
+  {
+    name: "v7_pacticipant_metadata",
+    statements: [
+      `ALTER TABLE pacticipants ADD COLUMN display_name TEXT`,
+      `ALTER TABLE pacticipants ADD COLUMN repository_url TEXT`,
+      `ALTER TABLE pacticipants ADD COLUMN repository_name TEXT`,
+      `ALTER TABLE pacticipants ADD COLUMN repository_namespace TEXT`,
+      `ALTER TABLE pacticipants ADD COLUMN metadata TEXT`,
+    ],
+  },
+
+  // v8: Pacticipant labels, and label-scoped webhooks
+  {
+    name: "v8_pacticipant_labels",
+    statements: [
+      `CREATE TABLE IF NOT EXISTS pacticipant_labels (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    pacticipant_id INTEGER NOT NULL REFERENCES pacticipants(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  )`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS pacticipant_labels_pacticipant_name_idx ON pacticipant_labels(pacticipant_id, name)`,
+      `CREATE INDEX IF NOT EXISTS pacticipant_labels_name_idx ON pacticipant_labels(name)`,
+      `ALTER TABLE webhooks ADD COLUMN consumer_label TEXT`,
+      `ALTER TABLE webhooks ADD COLUMN provider_label TEXT`,
+    ],
+  },
+
+  // v9: Branches as resources, with every version published on each branch.
+  // Backfilled from versions.branch, which stays as the version's first branch.
+  {
+    name: "v9_branches",
+    statements: [
+      `CREATE TABLE IF NOT EXISTS branches (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    pacticipant_id INTEGER NOT NULL REFERENCES pacticipants(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  )`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS branches_pacticipant_name_idx ON branches(pacticipant_id, name)`,
+      `CREATE TABLE IF NOT EXISTS branch_versions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    branch_id INTEGER NOT NULL REFERENCES branches(id) ON DELETE CASCADE,
+    version_id INTEGER NOT NULL REFERENCES versions(id) ON DELETE CASCADE,
+    created_at TEXT NOT NULL DEFAULT (datetime('now'))
+  )`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS branch_versions_branch_version_idx ON branch_versions(branch_id, version_id)`,
+      `CREATE INDEX IF NOT EXISTS branch_versions_version_id_idx ON branch_versions(version_id)`,
+      `INSERT INTO branches (pacticipant_id, name, created_at)
+    SELECT pacticipant_id, branch, MIN(created_at) FROM versions
+    WHERE branch IS NOT NULL GROUP BY pacticipant_id, branch`,
+      `INSERT INTO branch_versions (branch_id, version_id, created_at)
+    SELECT branches.id, versions.id, versions.created_at FROM versions
+    INNER JOIN branches ON branches.pacticipant_id = versions.pacticipant_id
+      AND branches.name = versions.branch`,
+    ],
+  },
+
+  // v10: Free-form version metadata managed through PUT/PATCH on the version
+  {
+    name: "v10_version_metadata",
+    statements: [`ALTER TABLE versions ADD COLUMN metadata TEXT`],
+  },
+
+  // v11: Released versions — many may be supported in an environment at once
+  {
+    name: "v11_released_versions",
+    statements: [
+      `CREATE TABLE IF NOT EXISTS released_versions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    version_id INTEGER NOT NULL REFERENCES versions(id) ON DELETE CASCADE,
+    environment_id INTEGER NOT NULL REFERENCES environments(id) ON DELETE CASCADE,
+    released_at TEXT NOT NULL DEFAULT (datetime('now')),
+    support_ended_at TEXT
+  )`,
+      `CREATE INDEX IF NOT EXISTS released_versions_env_idx ON released_versions(environment_id)`,
+      `CREATE INDEX IF NOT EXISTS released_versions_version_idx ON released_versions(version_id)`,
+    ],
+  },
+
+  // v12: Deployment history — a version may be deployed to an environment
+  // again after it was undeployed, so (version, environment) is no longer unique
+  {
+    name: "v12_deployment_history",
+    statements: [
+      `DROP INDEX IF EXISTS deployed_versions_version_env_idx`,
+      `CREATE INDEX IF NOT EXISTS deployed_versions_version_env_idx ON deployed_versions(version_id, environment_id)`,
+    ],
+  },
+  // v13: Application instances — one pacticipant may run as several
+  // independently deployed instances in the same environment
+  {
+    name: "v13_application_instances",
+    statements: [`ALTER TABLE deployed_versions ADD COLUMN application_instance TEXT`],
+  },
+  // v14: Environment lifecycle — stable UUIDs (backfilled as random v4 UUIDs),
+  // contacts, and an archive for the deployments of deleted environments
+  {
+    name: "v14_environment_lifecycle",
+    statements: [
+      `ALTER TABLE environments ADD COLUMN uuid TEXT`,
+      `ALTER TABLE environments ADD COLUMN contacts TEXT`,
+      `UPDATE environments SET uuid =
+        lower(hex(randomblob(4))) || '-' || lower(hex(randomblob(2))) || '-4' ||
+        substr(lower(hex(randomblob(2))), 2) || '-' ||
+        substr('89ab', 1 + (abs(random()) % 4), 1) || substr(lower(hex(randomblob(2))), 2) || '-' ||
+        lower(hex(randomblob(6)))
+      WHERE uuid IS NULL`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS environments_uuid_idx ON environments(uuid)`,
+      `CREATE TABLE IF NOT EXISTS archived_deployments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        version_id INTEGER NOT NULL REFERENCES versions(id) ON DELETE CASCADE,
+        environment_name TEXT NOT NULL,
+        environment_uuid TEXT NOT NULL,
+        application_instance TEXT,
+        deployed_at TEXT NOT NULL,
+        undeployed_at TEXT NOT NULL,
+        archived_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )`,
+      `CREATE INDEX IF NOT EXISTS archived_deployments_version_idx ON archived_deployments(version_id)`,
+    ],
+  },
+  // v15: Archive for the releases of deleted environments
+  {
+    name: "v15_archived_releases",
+    statements: [
+      `CREATE TABLE IF NOT EXISTS archived_releases (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        version_id INTEGER NOT NULL REFERENCES versions(id) ON DELETE CASCADE,
+        environment_name TEXT NOT NULL,
+        environment_uuid TEXT NOT NULL,
+        released_at TEXT NOT NULL,
+        support_ended_at TEXT,
+        archived_at TEXT NOT NULL DEFAULT (datetime('now'))
+      )`,
+      `CREATE INDEX IF NOT EXISTS archived_releases_version_idx ON archived_releases(version_id)`,
+    ],
+  },
 ];
 
+function execStatement(sql: SqlStorage, statement: string): void {
+  try {
+    sql.exec(statement);
+  } catch (e) {
+    // Ignore "duplicate column name" errors from ALTER TABLE
+    const msg = e instanceof Error ? e.message : String(e);
+    if (!msg.includes("duplicate column name")) {
+      throw e;
+    }
+  }
+}
+
 /**
- * Run migrations on the Durable Object's SQLite database.
+ * Run pending migrations on the Durable Object's SQLite database.
  * Called from the DO constructor - must be synchronous.
  * ALTER TABLE statements may fail if column already exists - this is expected.
  */
-export function runMigrations(sql: SqlStorage): void {
+export function runMigrations(storage: DurableObjectStorage): void {
+  storage.sql.exec(`CREATE TABLE IF NOT EXISTS schema_migrations (
+    name TEXT PRIMARY KEY,
+    applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+  )`);
+  const applied = new Set(
+    storage.sql
+      .exec<{ name: string }>("SELECT name FROM schema_migrations")
+      .toArray()
+      .map((row) => row.name),
+  );
+
   for (const migration of migrations) {
-    try {
-      sql.exec(migration);
-    } catch (e) {
-      // Ignore "duplicate column name" errors from ALTER TABLE
-      const msg = e instanceof Error ? e.message : String(e);
-      if (!msg.includes("duplicate column name")) {
-        throw e;
+    if (applied.has(migration.name)) continue;
+    storage.transactionSync(() => {
+      for (const statement of migration.statements) {
+        execStatement(storage.sql, statement);
       }
-    }
+      storage.sql.exec("INSERT INTO schema_migrations (name) VALUES (?)", migration.name);
+    });
   }
 }
 
 /**
- * Alternative: Run migrations using Drizzle (for if we need more complex migrations)
+ * Data migrations that need the Durable Object itself (async work such as
+ * hashing) rather than plain SQL. They share schema_migrations with the SQL
+ * migrations: the DO runs each pending one after runMigrations, then records it.
+ */
+export const dataMigrations = {
+  // Pact SHAs stored before canonical hashing were computed over the raw JSON,
+  // so byte-identical republishes would otherwise look like changed content.
+  canonicalContentShas: "data_v1_canonical_content_shas",
+} as const;
+
+export function isMigrationApplied(storage: DurableObjectStorage, name: string): boolean {
+  return (
+    storage.sql.exec("SELECT 1 FROM schema_migrations WHERE name = ?", name).toArray().length > 0
+  );
+}
+
+export function recordMigration(storage: DurableObjectStorage, name: string): void {
+  storage.sql.exec("INSERT OR IGNORE INTO schema_migrations (name) VALUES (?)", name);
+}
+
+/**
+ * Alternative: Run migrations using Drizzle (for if we need more complex migrations).
+ * Does not consult schema_migrations, so only suitable for an empty database.
  */
 export async function runMigrationsDrizzle(db: SqliteRemoteDatabase): Promise<void> {
   for (const migration of migrations) {
-    await db.run(migration as unknown as Parameters<typeof db.run>[0]);
+    for (const statement of migration.statements) {
+      await db.run(statement as unknown as Parameters<typeof db.run>[0]);
+    }
   }
 }
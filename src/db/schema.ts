@@ -8,6 +8,11 @@ export const pacticipants = sqliteTable(
     id: integer("id").primaryKey({ autoIncrement: true }),
     name: text("name").notNull().unique(),
     mainBranch: text("main_branch").default("main"),
+    displayName: text("display_name"),
+    repositoryUrl: text("repository_url"),
+    repositoryName: text("repository_name"),
+    repositoryNamespace: text("repository_namespace"),
+    metadata: text("metadata"), // JSON object of arbitrary key -> value
     createdAt: text("created_at")
       .notNull()
       .default(sql`(datetime('now'))`),
@@ -15,6 +20,25 @@ export const pacticipants = sqliteTable(
   (table) => [index("pacticipants_name_idx").on(table.name)],
 );
 
+// Labels for pacticipants (e.g., "payments", "team-checkout")
+export const pacticipantLabels = sqliteTable(
+  "pacticipant_labels",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    pacticipantId: integer("pacticipant_id")
+      .notNull()
+      .references(() => pacticipants.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    createdAt: text("created_at")
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    uniqueIndex("pacticipant_labels_pacticipant_name_idx").on(table.pacticipantId, table.name),
+    index("pacticipant_labels_name_idx").on(table.name),
+  ],
+);
+
 // Versions of pacticipants
 export const versions = sqliteTable(
   "versions",
@@ -24,8 +48,9 @@ export const versions = sqliteTable(
       .notNull()
       .references(() => pacticipants.id, { onDelete: "cascade" }),
     number: text("number").notNull(), // Version string (e.g., "1.0.0", git SHA)
-    branch: text("branch"), // Optional branch name
+    branch: text("branch"), // First branch the version was published on; see branchVersions
     buildUrl: text("build_url"), // Optional CI build URL
+    metadata: text("metadata"), // JSON object, e.g. commit message and author
     createdAt: text("created_at")
       .notNull()
       .default(sql`(datetime('now'))`),
@@ -36,6 +61,43 @@ export const versions = sqliteTable(
   ],
 );
 
+// Branches of pacticipants (e.g., "main", "feature/x")
+export const branches = sqliteTable(
+  "branches",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    pacticipantId: integer("pacticipant_id")
+      .notNull()
+      .references(() => pacticipants.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    createdAt: text("created_at")
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [uniqueIndex("branches_pacticipant_name_idx").on(table.pacticipantId, table.name)],
+);
+
+// Versions published on a branch; a version may be on several branches
+export const branchVersions = sqliteTable(
+  "branch_versions",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    branchId: integer("branch_id")
+      .notNull()
+      .references(() => branches.id, { onDelete: "cascade" }),
+    versionId: integer("version_id")
+      .notNull()
+      .references(() => versions.id, { onDelete: "cascade" }),
+    createdAt: text("created_at")
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    uniqueIndex("branch_versions_branch_version_idx").on(table.branchId, table.versionId),
+    index("branch_versions_version_id_idx").on(table.versionId),
+  ],
+);
+
 // Tags for versions (e.g., "prod", "main", "feature-x")
 export const tags = sqliteTable(
   "tags",
@@ -55,7 +117,27 @@ export const tags = sqliteTable(
   ],
 );
 
-// Pacts (contracts between consumer and provider)
+// Pact versions — each distinct pact content, stored once per SHA
+export const pactVersions = sqliteTable(
+  "pact_versions",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    consumerId: integer("consumer_id")
+      .notNull()
+      .references(() => pacticipants.id, { onDelete: "cascade" }),
+    providerId: integer("provider_id")
+      .notNull()
+      .references(() => pacticipants.id, { onDelete: "cascade" }),
+    sha: text("sha").notNull().unique(), // SHA-256 of the canonical content
+    content: text("content").notNull(), // JSON content as first published
+    createdAt: text("created_at")
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [index("pact_versions_provider_consumer_idx").on(table.providerId, table.consumerId)],
+);
+
+// Pacts (a consumer version's publication of a pact version for one provider)
 export const pacts = sqliteTable(
   "pacts",
   {
@@ -66,8 +148,9 @@ export const pacts = sqliteTable(
     providerId: integer("provider_id")
       .notNull()
       .references(() => pacticipants.id, { onDelete: "cascade" }),
-    content: text("content").notNull(), // JSON content of the pact
-    contentSha: text("content_sha").notNull(), // SHA-256 of content for deduplication
+    pactVersionId: integer("pact_version_id")
+      .notNull()
+      .references(() => pactVersions.id, { onDelete: "cascade" }),
     createdAt: text("created_at")
       .notNull()
       .default(sql`(datetime('now'))`),
@@ -78,29 +161,33 @@ export const pacts = sqliteTable(
       table.providerId,
     ),
     index("pacts_provider_id_idx").on(table.providerId),
-    index("pacts_content_sha_idx").on(table.contentSha),
+    index("pacts_pact_version_idx").on(table.pactVersionId),
   ],
 );
 
-// Verification results (provider verifying a pact)
+// Verification results (provider verifying a pact version, which covers
+// every consumer version that published the same content)
 export const verifications = sqliteTable(
   "verifications",
   {
     id: integer("id").primaryKey({ autoIncrement: true }),
-    pactId: integer("pact_id")
+    pactVersionId: integer("pact_version_id")
       .notNull()
-      .references(() => pacts.id, { onDelete: "cascade" }),
+      .references(() => pactVersions.id, { onDelete: "cascade" }),
     providerVersionId: integer("provider_version_id")
       .notNull()
       .references(() => versions.id, { onDelete: "cascade" }),
     success: integer("success", { mode: "boolean" }).notNull(),
+    // True when no successful verification of this pact version existed yet
+    // for the provider version's branch, i.e. the pact was pending.
+    pending: integer("pending", { mode: "boolean" }).notNull().default(false),
     buildUrl: text("build_url"),
     verifiedAt: text("verified_at")
       .notNull()
       .default(sql`(datetime('now'))`),
   },
   (table) => [
-    index("verifications_pact_id_idx").on(table.pactId),
+    index("verifications_pact_version_idx").on(table.pactVersionId),
     index("verifications_provider_version_idx").on(table.providerVersionId),
   ],
 );
@@ -113,14 +200,24 @@ export const environments = sqliteTable(
     name: text("name").notNull().unique(),
     displayName: text("display_name"),
     production: integer("production", { mode: "boolean" }).default(false),
+    // Stable identifier used by clients that address environments by UUID
+    uuid: text("uuid")
+      .notNull()
+      .$defaultFn(() => crypto.randomUUID()),
+    contacts: text("contacts"), // JSON array of { name, details }
     createdAt: text("created_at")
       .notNull()
       .default(sql`(datetime('now'))`),
   },
-  (table) => [index("environments_name_idx").on(table.name)],
+  (table) => [
+    index("environments_name_idx").on(table.name),
+    uniqueIndex("environments_uuid_idx").on(table.uuid),
+  ],
 );
 
-// Deployed versions (tracks which versions are deployed to which environments)
+// Deployed versions (tracks which versions are deployed to which environments).
+// One row per deployment, so redeploying a version adds a row; at most one
+// version of a pacticipant is currently deployed to an environment.
 export const deployedVersions = sqliteTable(
   "deployed_versions",
   {
@@ -135,14 +232,79 @@ export const deployedVersions = sqliteTable(
       .notNull()
       .default(sql`(datetime('now'))`),
     undeployedAt: text("undeployed_at"), // NULL = currently deployed
+    applicationInstance: text("application_instance"), // NULL = the default instance
   },
   (table) => [
     index("deployed_versions_env_idx").on(table.environmentId),
     index("deployed_versions_version_idx").on(table.versionId),
-    uniqueIndex("deployed_versions_version_env_idx").on(table.versionId, table.environmentId),
+    index("deployed_versions_version_env_idx").on(table.versionId, table.environmentId),
+  ],
+);
+
+// Deployments of environments that have since been deleted. The environment
+// is gone, so its name and UUID are kept alongside each archived row.
+export const archivedDeployments = sqliteTable(
+  "archived_deployments",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    versionId: integer("version_id")
+      .notNull()
+      .references(() => versions.id, { onDelete: "cascade" }),
+    environmentName: text("environment_name").notNull(),
+    environmentUuid: text("environment_uuid").notNull(),
+    applicationInstance: text("application_instance"),
+    deployedAt: text("deployed_at").notNull(),
+    undeployedAt: text("undeployed_at").notNull(),
+    archivedAt: text("archived_at")
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [index("archived_deployments_version_idx").on(table.versionId)],
+);
+
+// Released versions — unlike deployments, any number of versions of a
+// pacticipant can be supported in an environment at the same time.
+export const releasedVersions = sqliteTable(
+  "released_versions",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    versionId: integer("version_id")
+      .notNull()
+      .references(() => versions.id, { onDelete: "cascade" }),
+    environmentId: integer("environment_id")
+      .notNull()
+      .references(() => environments.id, { onDelete: "cascade" }),
+    releasedAt: text("released_at")
+      .notNull()
+      .default(sql`(datetime('now'))`),
+    supportEndedAt: text("support_ended_at"), // NULL = currently supported
+  },
+  (table) => [
+    index("released_versions_env_idx").on(table.environmentId),
+    index("released_versions_version_idx").on(table.versionId),
   ],
 );
 
+// Releases to environments that have since been deleted, kept with the
+// support-ended state they had (NULL = still supported when archived).
+export const archivedReleases = sqliteTable(
+  "archived_releases",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    versionId: integer("version_id")
+      .notNull()
+      .references(() => versions.id, { onDelete: "cascade" }),
+    environmentName: text("environment_name").notNull(),
+    environmentUuid: text("environment_uuid").notNull(),
+    releasedAt: text("released_at").notNull(),
+    supportEndedAt: text("support_ended_at"),
+    archivedAt: text("archived_at")
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [index("archived_releases_version_idx").on(table.versionId)],
+);
+
 // Webhooks — user-configured outbound calls on pact / verification events.
 export const webhooks = sqliteTable(
   "webhooks",
@@ -154,6 +316,8 @@ export const webhooks = sqliteTable(
     providerId: integer("provider_id").references(() => pacticipants.id, {
       onDelete: "cascade",
     }),
+    consumerLabel: text("consumer_label"), // only consumers carrying this label
+    providerLabel: text("provider_label"), // only providers carrying this label
     events: text("events").notNull(), // comma-separated: contract_published, provider_verification_published
     url: text("url").notNull(),
     method: text("method").notNull().default("POST"),
@@ -198,30 +362,84 @@ export const webhookExecutions = sqliteTable(
   ],
 );
 
+// can-i-deploy audit log — one row per evaluation, kept with the matrix it saw.
+// Names rather than ids, so a decision still reads correctly after the
+// pacticipant or version is gone.
+export const canIDeployDecisions = sqliteTable(
+  "can_i_deploy_decisions",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    pacticipant: text("pacticipant").notNull(),
+    version: text("version").notNull(),
+    toTag: text("to_tag"),
+    environment: text("environment"),
+    batch: text("batch"), // JSON: every version in a batch evaluation
+    deployable: integer("deployable", { mode: "boolean" }).notNull(),
+    reason: text("reason").notNull(),
+    matrix: text("matrix").notNull(), // JSON MatrixRow[]
+    caller: text("caller"), // User-Agent of the request
+    requestId: text("request_id"),
+    decidedAt: text("decided_at")
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (table) => [
+    index("can_i_deploy_decisions_pacticipant_version_idx").on(table.pacticipant, table.version),
+    index("can_i_deploy_decisions_environment_idx").on(table.environment),
+    index("can_i_deploy_decisions_decided_at_idx").on(table.decidedAt),
+  ],
+);
+
 // Type exports for use in services
 export type Pacticipant = typeof pacticipants.$inferSelect;
 export type NewPacticipant = typeof pacticipants.$inferInsert;
 
+export type PacticipantLabel = typeof pacticipantLabels.$inferSelect;
+export type NewPacticipantLabel = typeof pacticipantLabels.$inferInsert;
+
 export type Version = typeof versions.$inferSelect;
 export type NewVersion = typeof versions.$inferInsert;
 
+export type Branch = typeof branches.$inferSelect;
+export type NewBranch = typeof branches.$inferInsert;
+
+export type BranchVersion = typeof branchVersions.$inferSelect;
+export type NewBranchVersion = typeof branchVersions.$inferInsert;
+
 export type Tag = typeof tags.$inferSelect;
 export type NewTag = typeof tags.$inferInsert;
 
+export type PactVersion = typeof pactVersions.$inferSelect;
+export type NewPactVersion = typeof pactVersions.$inferInsert;
+
 export type Pact = typeof pacts.$inferSelect;
 export type NewPact = typeof pacts.$inferInsert;
 
+// A publication joined to its pact version's content, as most callers want it.
+export type PactWithContent = Pact & { content: string; contentSha: string };
+
+// A publication with its pact version's SHA only, for scans over many pacts.
+export type PactWithSha = Pact & { contentSha: string };
+
 export type Verification = typeof verifications.$inferSelect;
 export type NewVerification = typeof verifications.$inferInsert;
 
 export type Environment = typeof environments.$inferSelect;
 export type NewEnvironment = typeof environments.$inferInsert;
+export type ArchivedDeployment = typeof archivedDeployments.$inferSelect;
+export type ArchivedRelease = typeof archivedReleases.$inferSelect;
 
 export type DeployedVersion = typeof deployedVersions.$inferSelect;
 export type NewDeployedVersion = typeof deployedVersions.$inferInsert;
 
+export type ReleasedVersion = typeof releasedVersions.$inferSelect;
+export type NewReleasedVersion = typeof releasedVersions.$inferInsert;
+
 export type Webhook = typeof webhooks.$inferSelect;
 export type NewWebhook = typeof webhooks.$inferInsert;
 
 export type WebhookExecution = typeof webhookExecutions.$inferSelect;
 export type NewWebhookExecution = typeof webhookExecutions.$inferInsert;
+
+export type CanIDeployDecision = typeof canIDeployDecisions.$inferSelect;
+export type NewCanIDeployDecision = typeof canIDeployDecisions.$inferInsert;
@@ -1,41 +1,194 @@
 import { DurableObject } from "cloudflare:workers";
 import { drizzle, type DrizzleSqliteDODatabase } from "drizzle-orm/durable-sqlite";
-import { eq, and, desc, isNull } from "drizzle-orm";
+import { eq, and, or, asc, desc, lt, count, inArray, isNull } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
 import {
   pacticipants,
+  pacticipantLabels,
   versions,
+  branches,
+  branchVersions,
   tags,
+  pactVersions,
   pacts,
   verifications,
   environments,
   deployedVersions,
+  archivedDeployments,
+  releasedVersions,
+  archivedReleases,
   webhooks,
   webhookExecutions,
+  canIDeployDecisions,
   type Pacticipant,
+  type PacticipantLabel,
   type Version,
+  type Branch,
+  type BranchVersion,
   type Tag,
-  type Pact,
+  type PactVersion,
+  type PactWithContent,
+  type PactWithSha,
   type Verification,
   type Environment,
   type DeployedVersion,
+  type ArchivedDeployment,
+  type ArchivedRelease,
+  type ReleasedVersion,
   type Webhook,
   type WebhookExecution,
+  type CanIDeployDecision,
+  type NewCanIDeployDecision,
 } from "../db/schema";
-import { runMigrations } from "../db/migrations";
+import {
+  runMigrations,
+  dataMigrations,
+  isMigrationApplied,
+  recordMigration,
+} from "../db/migrations";
+import {
+  canonicalisePact,
+  ignoredMetadataPaths,
+  isPactOverwriteAllowed,
+  summarisePactDiff,
+} from "../lib/pact-content";
 import type {
   Env,
   PactContent,
+  PactConflict,
   MatrixRow,
+  MatrixQuery,
+  CanIDeployIgnore,
+  MatrixSelector,
   ConsumerVersionSelector,
   WebhookEvent,
   WebhookEventPayload,
+  PacticipantUpdate,
+  VersionUpdate,
+  EnvironmentContact,
+  EnvironmentRequest,
 } from "../types";
 
 const MAX_WEBHOOK_RESPONSE_BYTES = 4 * 1024;
 const WEBHOOK_RETRY_DELAYS_MS = [200, 800, 3200];
+const DEFAULT_MATRIX_LIMIT = 100;
+// The can-i-deploy decision log keeps at most this many rows, none older
+// than the retention period.
+const DECISION_RETENTION_DAYS = 90;
+const MAX_DECISIONS = 10_000;
+// Pact versions whose content is loaded per query when building the
+// pacts-for-verification response.
+const CONTENT_LOAD_CHUNK_SIZE = 50;
+
+// One pact selected for verification, with the reasons it was selected.
+type PactForVerificationResult = {
+  pact: PactWithContent;
+  consumer: Pacticipant;
+  provider: Pacticipant;
+  // The newest of `versions`, which lists every selected consumer version
+  // that published this content.
+  version: Version;
+  versions: Version[];
+  notices: string[];
+  pending: boolean;
+  wip: boolean;
+};
+
+// A selected pact before its content is loaded.
+type SelectedPact = Omit<PactForVerificationResult, "pact"> & { pact: PactWithSha };
+
+// A publication as seen by the selector logic.
+type PublicationRow = {
+  pact: PactWithSha;
+  consumer: Pacticipant;
+  version: Version;
+  branches: string[];
+  tags: string[];
+  deployedTo: string[];
+  releasedIn: string[];
+};
+
+function compareNewestFirst(a: Version, b: Version): number {
+  if (a.createdAt !== b.createdAt) return a.createdAt < b.createdAt ? 1 : -1;
+  return b.id - a.id;
+}
+
+function matrixRow(
+  consumerName: string,
+  consumerVersion: Version,
+  providerName: string,
+  providerVersion: Version | undefined,
+  pact: { contentSha: string },
+  verification: Verification | undefined,
+): MatrixRow {
+  return {
+    consumer: { name: consumerName, version: consumerVersion.number },
+    provider: { name: providerName, version: providerVersion?.number ?? null },
+    pactVersion: { sha: pact.contentSha },
+    verificationResult: verification
+      ? {
+          id: verification.id,
+          success: verification.success,
+          verifiedAt: verification.verifiedAt,
+          pending: verification.pending,
+        }
+      : null,
+  };
+}
+
+// Flag rows involving an ignored pacticipant (or pacticipant version); they
+// stay in the matrix but don't count towards a can-i-deploy decision.
+function markIgnored(rows: MatrixRow[], ignore: CanIDeployIgnore[]): MatrixRow[] {
+  if (ignore.length === 0) return rows;
+  const matches = (side: { name: string; version: string | null }) =>
+    ignore.some((i) => i.pacticipant === side.name && (!i.version || i.version === side.version));
+  return rows.map((row) =>
+    matches(row.consumer) || matches(row.provider) ? { ...row, ignored: true } : row,
+  );
+}
+
+// Index (versionId, name) rows by version.
+function namesByVersion(rows: Array<{ versionId: number; name: string }>): Map<number, string[]> {
+  const names = new Map<number, string[]>();
+  for (const { versionId, name } of rows) {
+    const list = names.get(versionId);
+    if (list) list.push(name);
+    else names.set(versionId, [name]);
+  }
+  return names;
+}
+
+// Split publications (already newest first) into per-consumer lists.
+function groupByConsumer(rows: PublicationRow[]): PublicationRow[][] {
+  const groups = new Map<number, PublicationRow[]>();
+  for (const row of rows) {
+    const group = groups.get(row.consumer.id);
+    if (group) group.push(row);
+    else groups.set(row.consumer.id, [row]);
+  }
+  return Array.from(groups.values());
+}
+
+// A publication's columns plus the SHA of its pact version.
+const pactWithShaColumns = {
+  id: pacts.id,
+  consumerVersionId: pacts.consumerVersionId,
+  providerId: pacts.providerId,
+  pactVersionId: pacts.pactVersionId,
+  createdAt: pacts.createdAt,
+  contentSha: pactVersions.sha,
+};
+
+// ... and the content too.
+const pactWithContentColumns = {
+  ...pactWithShaColumns,
+  content: pactVersions.content,
+};
 
 export class PactBrokerDO extends DurableObject<Env> {
   private db: DrizzleSqliteDODatabase;
+  // Long-polling can-i-deploy requests, woken by publishVerification
+  private verificationWaiters = new Set<() => void>();
 
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env);
@@ -45,61 +198,269 @@ export class PactBrokerDO extends DurableObject<Env> {
 
     // Run migrations on construction
     this.ctx.blockConcurrencyWhile(async () => {
-      runMigrations(ctx.storage.sql);
+      runMigrations(ctx.storage);
+      if (!isMigrationApplied(ctx.storage, dataMigrations.canonicalContentShas)) {
+        await this.recomputeContentShas();
+        recordMigration(ctx.storage, dataMigrations.canonicalContentShas);
+      }
     });
   }
 
   // ============ Pacticipant Operations ============
 
   async getOrCreatePacticipant(name: string): Promise<Pacticipant> {
-    const existing = this.db.select().from(pacticipants).where(eq(pacticipants.name, name)).get();
+    return this.findOrCreatePacticipant(name);
+  }
 
-    if (existing) return existing;
+  async getPacticipant(name: string): Promise<Pacticipant | undefined> {
+    return this.db.select().from(pacticipants).where(eq(pacticipants.name, name)).get();
+  }
 
-    const result = this.db.insert(pacticipants).values({ name }).returning().get();
+  /** Every pacticipant with its label names, optionally only those carrying `label`. */
+  async getAllPacticipants(label?: string): Promise<Array<Pacticipant & { labels: string[] }>> {
+    const all = label
+      ? this.pacticipantsLabelled(label)
+      : this.db.select().from(pacticipants).all();
+    const labels = this.db.select().from(pacticipantLabels).orderBy(pacticipantLabels.name).all();
+    return all.map((p) => ({
+      ...p,
+      labels: labels.filter((l) => l.pacticipantId === p.id).map((l) => l.name),
+    }));
+  }
 
-    return result;
+  /**
+   * Replace a pacticipant's editable fields, creating the pacticipant if it
+   * does not exist. Omitted fields are cleared, except `mainBranch`, which
+   * falls back to the column default.
+   */
+  async putPacticipant(
+    name: string,
+    input: PacticipantUpdate,
+  ): Promise<{ pacticipant: Pacticipant; created: boolean }> {
+    const values = {
+      displayName: input.displayName ?? null,
+      mainBranch: input.mainBranch === undefined ? "main" : input.mainBranch,
+      repositoryUrl: input.repositoryUrl ?? null,
+      repositoryName: input.repositoryName ?? null,
+      repositoryNamespace: input.repositoryNamespace ?? null,
+      metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+    };
+    const existing = await this.getPacticipant(name);
+    if (!existing) {
+      const pacticipant = this.db
+        .insert(pacticipants)
+        .values({ name, ...values })
+        .returning()
+        .get();
+      return { pacticipant, created: true };
+    }
+    const pacticipant = this.db
+      .update(pacticipants)
+      .set(values)
+      .where(eq(pacticipants.id, existing.id))
+      .returning()
+      .get();
+    return { pacticipant, created: false };
   }
 
-  async getPacticipant(name: string): Promise<Pacticipant | undefined> {
-    return this.db.select().from(pacticipants).where(eq(pacticipants.name, name)).get();
+  /** Update only the given fields of an existing pacticipant. */
+  async patchPacticipant(name: string, input: PacticipantUpdate): Promise<Pacticipant | null> {
+    const existing = await this.getPacticipant(name);
+    if (!existing) return null;
+    const changes = {
+      ...(input.displayName !== undefined && { displayName: input.displayName }),
+      ...(input.mainBranch !== undefined && { mainBranch: input.mainBranch }),
+      ...(input.repositoryUrl !== undefined && { repositoryUrl: input.repositoryUrl }),
+      ...(input.repositoryName !== undefined && { repositoryName: input.repositoryName }),
+      ...(input.repositoryNamespace !== undefined && {
+        repositoryNamespace: input.repositoryNamespace,
+      }),
+      ...(input.metadata !== undefined && {
+        metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+      }),
+    };
+    if (Object.keys(changes).length === 0) return existing;
+    return this.db
+      .update(pacticipants)
+      .set(changes)
+      .where(eq(pacticipants.id, existing.id))
+      .returning()
+      .get();
   }
 
-  async getAllPacticipants(): Promise<Pacticipant[]> {
-    return this.db.select().from(pacticipants).all();
+  // ============ Branch Operations ============
+
+  async getBranches(pacticipantName: string): Promise<Branch[]> {
+    const pacticipant = await this.getPacticipant(pacticipantName);
+    if (!pacticipant) return [];
+    return this.db
+      .select()
+      .from(branches)
+      .where(eq(branches.pacticipantId, pacticipant.id))
+      .orderBy(branches.name)
+      .all();
   }
 
-  // ============ Version Operations ============
+  async getBranch(pacticipantName: string, branchName: string): Promise<Branch | undefined> {
+    const pacticipant = await this.getPacticipant(pacticipantName);
+    if (!pacticipant) return undefined;
+    return this.db
+      .select()
+      .from(branches)
+      .where(and(eq(branches.pacticipantId, pacticipant.id), eq(branches.name, branchName)))
+      .get();
+  }
 
-  async getOrCreateVersion(
+  /** Versions on a branch, newest first. Returns null if the branch does not exist. */
+  async getBranchVersions(pacticipantName: string, branchName: string): Promise<Version[] | null> {
+    const branch = await this.getBranch(pacticipantName, branchName);
+    if (!branch) return null;
+    return this.db
+      .select({ version: versions })
+      .from(branchVersions)
+      .innerJoin(versions, eq(branchVersions.versionId, versions.id))
+      .where(eq(branchVersions.branchId, branch.id))
+      .orderBy(desc(versions.createdAt), desc(versions.id))
+      .all()
+      .map((row) => row.version);
+  }
+
+  async getBranchVersion(
     pacticipantName: string,
+    branchName: string,
     versionNumber: string,
-    branch?: string,
-    buildUrl?: string,
-  ): Promise<{ pacticipant: Pacticipant; version: Version }> {
-    const pacticipant = await this.getOrCreatePacticipant(pacticipantName);
+  ): Promise<BranchVersion | undefined> {
+    const pacticipant = await this.getPacticipant(pacticipantName);
+    if (!pacticipant) return undefined;
+    return this.findBranchVersion(pacticipant.id, branchName, versionNumber);
+  }
 
-    const existing = this.db
+  /**
+   * Put a version on a branch, creating the pacticipant, version and branch
+   * as needed. This is how a provider build records its branch before
+   * publishing verification results, so pending status can be worked out per
+   * provider branch. A new version takes the branch as its own, as when it
+   * is published with one.
+   */
+  async addBranchVersion(
+    pacticipantName: string,
+    branchName: string,
+    versionNumber: string,
+  ): Promise<{ branchVersion: BranchVersion; created: boolean }> {
+    return this.ctx.storage.transactionSync(() => {
+      const pacticipant = this.findOrCreatePacticipant(pacticipantName);
+      const existing = this.findBranchVersion(pacticipant.id, branchName, versionNumber);
+      if (existing) return { branchVersion: existing, created: false };
+
+      this.findOrCreateVersion(pacticipant.id, versionNumber, branchName);
+      return {
+        branchVersion: this.findBranchVersion(pacticipant.id, branchName, versionNumber)!,
+        created: true,
+      };
+    });
+  }
+
+  /**
+   * Delete a branch and its version history. The versions themselves are
+   * kept; those that named it as their first branch lose that branch.
+   */
+  async deleteBranch(pacticipantName: string, branchName: string): Promise<boolean> {
+    const branch = await this.getBranch(pacticipantName, branchName);
+    if (!branch) return false;
+    this.ctx.storage.transactionSync(() => {
+      this.db.delete(branches).where(eq(branches.id, branch.id)).run();
+      this.db
+        .update(versions)
+        .set({ branch: null })
+        .where(
+          and(eq(versions.pacticipantId, branch.pacticipantId), eq(versions.branch, branchName)),
+        )
+        .run();
+    });
+    return true;
+  }
+
+  // ============ Label Operations ============
+
+  async getLabelsForPacticipant(name: string): Promise<PacticipantLabel[]> {
+    const pacticipant = await this.getPacticipant(name);
+    if (!pacticipant) return [];
+    return this.db
       .select()
-      .from(versions)
-      .where(and(eq(versions.pacticipantId, pacticipant.id), eq(versions.number, versionNumber)))
-      .get();
+      .from(pacticipantLabels)
+      .where(eq(pacticipantLabels.pacticipantId, pacticipant.id))
+      .orderBy(pacticipantLabels.name)
+      .all();
+  }
 
-    if (existing) {
-      return { pacticipant, version: existing };
-    }
+  async getLabel(name: string, label: string): Promise<PacticipantLabel | undefined> {
+    const pacticipant = await this.getPacticipant(name);
+    if (!pacticipant) return undefined;
+    return this.db
+      .select()
+      .from(pacticipantLabels)
+      .where(
+        and(eq(pacticipantLabels.pacticipantId, pacticipant.id), eq(pacticipantLabels.name, label)),
+      )
+      .get();
+  }
 
-    const version = this.db
-      .insert(versions)
-      .values({
-        pacticipantId: pacticipant.id,
-        number: versionNumber,
-        branch,
-        buildUrl,
-      })
+  /** Label a pacticipant. Returns null if the pacticipant does not exist. */
+  async addLabel(
+    name: string,
+    label: string,
+  ): Promise<{ label: PacticipantLabel; created: boolean } | null> {
+    const pacticipant = await this.getPacticipant(name);
+    if (!pacticipant) return null;
+    const existing = await this.getLabel(name, label);
+    if (existing) return { label: existing, created: false };
+    const created = this.db
+      .insert(pacticipantLabels)
+      .values({ pacticipantId: pacticipant.id, name: label })
       .returning()
       .get();
+    return { label: created, created: true };
+  }
+
+  async removeLabel(name: string, label: string): Promise<boolean> {
+    const existing = await this.getLabel(name, label);
+    if (!existing) return false;
+    this.db.delete(pacticipantLabels).where(eq(pacticipantLabels.id, existing.id)).run();
+    return true;
+  }
+
+  private pacticipantsLabelled(label: string): Pacticipant[] {
+    return this.db
+      .select({ pacticipant: pacticipants })
+      .from(pacticipants)
+      .innerJoin(pacticipantLabels, eq(pacticipantLabels.pacticipantId, pacticipants.id))
+      .where(eq(pacticipantLabels.name, label))
+      .all()
+      .map((row) => row.pacticipant);
+  }
+
+  private hasLabel(pacticipantId: number | null, label: string): boolean {
+    if (pacticipantId === null) return false;
+    const row = this.db
+      .select({ id: pacticipantLabels.id })
+      .from(pacticipantLabels)
+      .where(
+        and(eq(pacticipantLabels.pacticipantId, pacticipantId), eq(pacticipantLabels.name, label)),
+      )
+      .get();
+    return row !== undefined;
+  }
+
+  // ============ Version Operations ============
 
+  async getOrCreateVersion(
+    pacticipantName: string,
+    versionNumber: string,
+    branch?: string,
+    buildUrl?: string,
+  ): Promise<{ pacticipant: Pacticipant; version: Version }> {
+    const pacticipant = this.findOrCreatePacticipant(pacticipantName);
+    const { version } = this.findOrCreateVersion(pacticipant.id, versionNumber, branch, buildUrl);
     return { pacticipant, version };
   }
 
@@ -114,6 +475,59 @@ export class PactBrokerDO extends DurableObject<Env> {
       .get();
   }
 
+  /**
+   * Create a version, or replace an existing version's build URL and
+   * metadata. A given branch is applied as by patchVersion; an omitted one
+   * is left alone.
+   */
+  async putVersion(
+    pacticipantName: string,
+    versionNumber: string,
+    input: VersionUpdate,
+  ): Promise<{ version: Version; created: boolean } | { conflict: string }> {
+    const existing = await this.getVersion(pacticipantName, versionNumber);
+    if (!existing) {
+      const pacticipant = this.findOrCreatePacticipant(pacticipantName);
+      const { version } = this.findOrCreateVersion(
+        pacticipant.id,
+        versionNumber,
+        input.branch ?? undefined,
+        input.buildUrl ?? undefined,
+      );
+      if (!input.metadata) return { version, created: true };
+      const withMetadata = this.db
+        .update(versions)
+        .set({ metadata: JSON.stringify(input.metadata) })
+        .where(eq(versions.id, version.id))
+        .returning()
+        .get();
+      return { version: withMetadata, created: true };
+    }
+
+    const updated = this.updateVersion(existing, {
+      branch: input.branch,
+      buildUrl: input.buildUrl ?? null,
+      metadata: input.metadata ?? null,
+    });
+    return "conflict" in updated ? updated : { version: updated, created: false };
+  }
+
+  /**
+   * Update only the given fields of an existing version. A branch may be set
+   * while the version has none; changing or clearing it is refused once pacts
+   * or verification results have been published for the version, because
+   * selectors and pending status have already relied on it.
+   */
+  async patchVersion(
+    pacticipantName: string,
+    versionNumber: string,
+    input: VersionUpdate,
+  ): Promise<Version | { conflict: string } | null> {
+    const existing = await this.getVersion(pacticipantName, versionNumber);
+    if (!existing) return null;
+    return this.updateVersion(existing, input);
+  }
+
   async getVersionsByPacticipant(pacticipantName: string): Promise<Version[]> {
     const pacticipant = await this.getPacticipant(pacticipantName);
     if (!pacticipant) return [];
@@ -136,16 +550,7 @@ export class PactBrokerDO extends DurableObject<Env> {
     const version = await this.getVersion(pacticipantName, versionNumber);
     if (!version) return null;
 
-    // Check if tag already exists
-    const existing = this.db
-      .select()
-      .from(tags)
-      .where(and(eq(tags.versionId, version.id), eq(tags.name, tagName)))
-      .get();
-
-    if (existing) return existing;
-
-    return this.db.insert(tags).values({ versionId: version.id, name: tagName }).returning().get();
+    return this.findOrCreateTag(version.id, tagName);
   }
 
   async getTagsForVersion(pacticipantName: string, versionNumber: string): Promise<Tag[]> {
@@ -181,7 +586,19 @@ export class PactBrokerDO extends DurableObject<Env> {
     providerName: string,
     content: PactContent,
     branch?: string,
-  ): Promise<{ pact: Pact; created: boolean }> {
+  ): Promise<{ pact: PactWithContent; created: boolean } | { conflict: PactConflict }> {
+    const contentStr = JSON.stringify(content);
+    const contentSha = await this.pactContentSha(content);
+
+    const conflict = this.findPactConflict(
+      consumerName,
+      consumerVersion,
+      providerName,
+      content,
+      contentSha,
+    );
+    if (conflict) return { conflict };
+
     // Ensure consumer and provider exist
     const { version: consumerVer } = await this.getOrCreateVersion(
       consumerName,
@@ -190,47 +607,101 @@ export class PactBrokerDO extends DurableObject<Env> {
     );
     const provider = await this.getOrCreatePacticipant(providerName);
 
-    // Calculate content SHA
-    const contentStr = JSON.stringify(content);
-    const contentSha = await this.sha256(contentStr);
-
-    // Check for existing pact
-    const existing = this.db
-      .select()
-      .from(pacts)
-      .where(and(eq(pacts.consumerVersionId, consumerVer.id), eq(pacts.providerId, provider.id)))
-      .get();
-
-    if (existing) {
-      // Update if content changed
-      if (existing.contentSha !== contentSha) {
-        this.db
-          .update(pacts)
-          .set({ content: contentStr, contentSha })
-          .where(eq(pacts.id, existing.id))
-          .run();
+    const result = this.upsertPact(consumerVer, provider.id, contentStr, contentSha);
+    if (result.previousSha) {
+      this.logPactOverwrite(
+        consumerName,
+        consumerVersion,
+        providerName,
+        result.previousSha,
+        contentSha,
+      );
+    }
+    return result;
+  }
 
+  /**
+   * Publish a batch of contracts for one consumer version, as sent by
+   * `pact-broker publish` to `POST /contracts/publish`. The version, its
+   * tags and every pact are written in a single storage transaction, so a
+   * failure part-way through leaves nothing behind.
+   */
+  async publishContracts(input: {
+    pacticipantName: string;
+    versionNumber: string;
+    branch?: string;
+    buildUrl?: string;
+    tags: string[];
+    contracts: Array<{ providerName: string; content: PactContent }>;
+  }): Promise<
+    | {
+        pacticipant: Pacticipant;
+        version: Version;
+        versionCreated: boolean;
+        tags: Tag[];
+        pacts: Array<{
+          pact: PactWithContent;
+          provider: Pacticipant;
+          created: boolean;
+          previousSha: string | null;
+        }>;
+      }
+    | { conflicts: PactConflict[] }
+  > {
+    // Hashing is async, so do it before entering the synchronous transaction.
+    const prepared = await Promise.all(
+      input.contracts.map(async (contract) => {
+        const contentStr = JSON.stringify(contract.content);
         return {
-          pact: { ...existing, content: contentStr, contentSha },
-          created: false,
+          providerName: contract.providerName,
+          content: contract.content,
+          contentStr,
+          contentSha: await this.pactContentSha(contract.content),
         };
-      }
-      return { pact: existing, created: false };
-    }
+      }),
+    );
 
-    // Create new pact
-    const pact = this.db
-      .insert(pacts)
-      .values({
-        consumerVersionId: consumerVer.id,
-        providerId: provider.id,
-        content: contentStr,
-        contentSha,
-      })
-      .returning()
-      .get();
+    // Reject the whole batch if any contract would change already-published content.
+    const conflicts = prepared
+      .map((p) =>
+        this.findPactConflict(
+          input.pacticipantName,
+          input.versionNumber,
+          p.providerName,
+          p.content,
+          p.contentSha,
+        ),
+      )
+      .filter((c): c is PactConflict => c !== null);
+    if (conflicts.length > 0) return { conflicts };
+
+    return this.ctx.storage.transactionSync(() => {
+      const pacticipant = this.findOrCreatePacticipant(input.pacticipantName);
+      const { version, created: versionCreated } = this.findOrCreateVersion(
+        pacticipant.id,
+        input.versionNumber,
+        input.branch,
+        input.buildUrl,
+      );
+      const versionTags = input.tags.map((name) => this.findOrCreateTag(version.id, name));
+
+      const published = prepared.map(({ providerName, contentStr, contentSha }) => {
+        const provider = this.findOrCreatePacticipant(providerName);
+        const result = this.upsertPact(version, provider.id, contentStr, contentSha);
+        if (result.previousSha) {
+          this.logPactOverwrite(
+            pacticipant.name,
+            version.number,
+            provider.name,
+            result.previousSha,
+            contentSha,
+          );
+        }
+        return { ...result, provider };
+      });
 
-    return { pact, created: true };
+      return { pacticipant, version, versionCreated, tags: versionTags, pacts: published };
+    });
   }
 
   async getPact(
@@ -238,7 +709,7 @@ export class PactBrokerDO extends DurableObject<Env> {
     consumerName: string,
     consumerVersion: string,
   ): Promise<{
-    pact: Pact;
+    pact: PactWithContent;
     consumer: Pacticipant;
     provider: Pacticipant;
     version: Version;
@@ -250,9 +721,7 @@ export class PactBrokerDO extends DurableObject<Env> {
     const version = await this.getVersion(consumerName, consumerVersion);
     if (!version) return null;
 
-    const pact = this.db
-      .select()
-      .from(pacts)
+    const pact = this.selectPactWithContent()
       .where(and(eq(pacts.consumerVersionId, version.id), eq(pacts.providerId, provider.id)))
       .get();
 
@@ -266,7 +735,7 @@ export class PactBrokerDO extends DurableObject<Env> {
     consumerName: string,
     tag?: string,
   ): Promise<{
-    pact: Pact;
+    pact: PactWithContent;
     consumer: Pacticipant;
     provider: Pacticipant;
     version: Version;
@@ -294,9 +763,7 @@ export class PactBrokerDO extends DurableObject<Env> {
 
     if (!version) return null;
 
-    const pact = this.db
-      .select()
-      .from(pacts)
+    const pact = this.selectPactWithContent()
       .where(and(eq(pacts.consumerVersionId, version.id), eq(pacts.providerId, provider.id)))
       .get();
 
@@ -307,7 +774,7 @@ export class PactBrokerDO extends DurableObject<Env> {
 
   async getLatestPactsForProvider(providerName: string): Promise<
     Array<{
-      pact: Pact;
+      pact: PactWithContent;
       consumer: Pacticipant;
       provider: Pacticipant;
       version: Version;
@@ -325,7 +792,7 @@ export class PactBrokerDO extends DurableObject<Env> {
       .all();
 
     const results: Array<{
-      pact: Pact;
+      pact: PactWithContent;
       consumer: Pacticipant;
       provider: Pacticipant;
       version: Version;
@@ -347,8 +814,26 @@ export class PactBrokerDO extends DurableObject<Env> {
     return results;
   }
 
-  async getPactByContentSha(sha: string): Promise<Pact | undefined> {
-    return this.db.select().from(pacts).where(eq(pacts.contentSha, sha)).get();
+  async getPactVersion(
+    providerName: string,
+    consumerName: string,
+    sha: string,
+  ): Promise<PactVersion | undefined> {
+    const consumer = await this.getPacticipant(consumerName);
+    const provider = await this.getPacticipant(providerName);
+    if (!consumer || !provider) return undefined;
+
+    return this.db
+      .select()
+      .from(pactVersions)
+      .where(
+        and(
+          eq(pactVersions.sha, sha),
+          eq(pactVersions.providerId, provider.id),
+          eq(pactVersions.consumerId, consumer.id),
+        ),
+      )
+      .get();
   }
 
   async getPactByContentShaFull(
@@ -356,7 +841,7 @@ export class PactBrokerDO extends DurableObject<Env> {
     consumerName: string,
     sha: string,
   ): Promise<{
-    pact: Pact;
+    pact: PactWithContent;
     consumer: Pacticipant;
     provider: Pacticipant;
     version: Version;
@@ -365,61 +850,160 @@ export class PactBrokerDO extends DurableObject<Env> {
     const provider = await this.getPacticipant(providerName);
     if (!consumer || !provider) return null;
 
-    const pact = this.db
-      .select()
+    // Several consumer versions may share this content; report the latest.
+    const result = this.db
+      .select({ pact: pactWithContentColumns, version: versions })
       .from(pacts)
-      .where(and(eq(pacts.contentSha, sha), eq(pacts.providerId, provider.id)))
+      .innerJoin(pactVersions, eq(pacts.pactVersionId, pactVersions.id))
+      .innerJoin(versions, eq(pacts.consumerVersionId, versions.id))
+      .where(
+        and(
+          eq(pactVersions.sha, sha),
+          eq(pactVersions.providerId, provider.id),
+          eq(pactVersions.consumerId, consumer.id),
+        ),
+      )
+      .orderBy(desc(versions.createdAt), desc(versions.id))
       .get();
 
-    if (!pact) return null;
+    if (!result) return null;
 
-    // Get the version from the pact's consumerVersionId
-    const version = this.db
-      .select()
-      .from(versions)
-      .where(and(eq(versions.id, pact.consumerVersionId), eq(versions.pacticipantId, consumer.id)))
-      .get();
+    return { pact: result.pact, consumer, provider, version: result.version };
+  }
 
-    if (!version) return null;
+  /**
+   * Recompute the SHA of every stored pact version using the current
+   * canonical hashing rules. Runs once as a data migration, and again on
+   * demand after PACT_SHA_IGNORED_METADATA changes. When two pact versions
+   * now hash the same, the later one is merged into the earlier: its
+   * publications and verifications are repointed and the duplicate row is
+   * removed. Rows whose content no longer parses are left untouched and
+   * counted as skipped.
+   */
+  async recomputeContentShas(): Promise<{
+    scanned: number;
+    updated: number;
+    merged: number;
+    skipped: number;
+    verificationsRepointed: number;
+  }> {
+    const rows = this.db
+      .select({ id: pactVersions.id, content: pactVersions.content, sha: pactVersions.sha })
+      .from(pactVersions)
+      .orderBy(pactVersions.id)
+      .all();
 
-    return { pact, consumer, provider, version };
+    const changes: Array<{ id: number; sha: string }> = [];
+    let skipped = 0;
+    for (const row of rows) {
+      let content: PactContent;
+      try {
+        content = JSON.parse(row.content) as PactContent;
+      } catch {
+        skipped++;
+        continue;
+      }
+      const sha = await this.pactContentSha(content);
+      if (sha !== row.sha) changes.push({ id: row.id, sha });
+    }
+
+    const counts = this.ctx.storage.transactionSync(() => {
+      let merged = 0;
+      let repointed = 0;
+      for (const change of changes) {
+        const target = this.db
+          .select({ id: pactVersions.id })
+          .from(pactVersions)
+          .where(eq(pactVersions.sha, change.sha))
+          .get();
+        if (!target) {
+          this.db
+            .update(pactVersions)
+            .set({ sha: change.sha })
+            .where(eq(pactVersions.id, change.id))
+            .run();
+          continue;
+        }
+
+        this.db
+          .update(pacts)
+          .set({ pactVersionId: target.id })
+          .where(eq(pacts.pactVersionId, change.id))
+          .run();
+        repointed += this.db
+          .select({ id: verifications.id })
+          .from(verifications)
+          .where(eq(verifications.pactVersionId, change.id))
+          .all().length;
+        this.db
+          .update(verifications)
+          .set({ pactVersionId: target.id })
+          .where(eq(verifications.pactVersionId, change.id))
+          .run();
+        this.db.delete(pactVersions).where(eq(pactVersions.id, change.id)).run();
+        merged++;
+      }
+      return { merged, repointed };
+    });
+
+    return {
+      scanned: rows.length,
+      updated: changes.length,
+      merged: counts.merged,
+      skipped,
+      verificationsRepointed: counts.repointed,
+    };
   }
 
   // ============ Verification Operations ============
 
   async publishVerification(
     providerName: string,
-    _consumerName: string,
+    consumerName: string,
     pactSha: string,
     providerVersion: string,
     success: boolean,
     buildUrl?: string,
   ): Promise<Verification | null> {
-    // Find pact by SHA
-    const pact = await this.getPactByContentSha(pactSha);
-    if (!pact) return null;
+    // The result applies to the content, whichever consumer versions published it
+    const pactVersion = await this.getPactVersion(providerName, consumerName, pactSha);
+    if (!pactVersion) return null;
 
     // Get or create provider version
-    const { version: providerVer } = await this.getOrCreateVersion(providerName, providerVersion);
+    const { pacticipant: provider, version: providerVer } = await this.getOrCreateVersion(
+      providerName,
+      providerVersion,
+    );
+    const pending = !this.hasSuccessfulVerification(
+      pactVersion.id,
+      provider.id,
+      this.branchNamesOf(providerVer.id),
+    );
 
     // Create verification result
-    return this.db
+    const verification = this.db
       .insert(verifications)
       .values({
-        pactId: pact.id,
+        pactVersionId: pactVersion.id,
         providerVersionId: providerVer.id,
         success,
+        pending,
         buildUrl,
       })
       .returning()
       .get();
+
+    // Wake any can-i-deploy requests waiting for results
+    for (const wake of Array.from(this.verificationWaiters)) wake();
+
+    return verification;
   }
 
-  async getVerificationsForPact(pactId: number): Promise<Verification[]> {
+  async getVerificationsForPactVersion(pactVersionId: number): Promise<Verification[]> {
     return this.db
       .select()
       .from(verifications)
-      .where(eq(verifications.pactId, pactId))
+      .where(eq(verifications.pactVersionId, pactVersionId))
       .orderBy(desc(verifications.verifiedAt))
       .all();
   }
@@ -427,7 +1011,7 @@ export class PactBrokerDO extends DurableObject<Env> {
   async getVerificationById(id: number): Promise<{
     verification: Verification;
     providerVersion: Version;
-    pact: Pact;
+    pactVersion: PactVersion;
   } | null> {
     const verification = this.db.select().from(verifications).where(eq(verifications.id, id)).get();
 
@@ -439,11 +1023,15 @@ export class PactBrokerDO extends DurableObject<Env> {
       .where(eq(versions.id, verification.providerVersionId))
       .get();
 
-    const pact = this.db.select().from(pacts).where(eq(pacts.id, verification.pactId)).get();
+    const pactVersion = this.db
+      .select()
+      .from(pactVersions)
+      .where(eq(pactVersions.id, verification.pactVersionId))
+      .get();
 
-    if (!providerVersion || !pact) return null;
+    if (!providerVersion || !pactVersion) return null;
 
-    return { verification, providerVersion, pact };
+    return { verification, providerVersion, pactVersion };
   }
 
   async getTag(
@@ -465,6 +1053,13 @@ export class PactBrokerDO extends DurableObject<Env> {
 
   // ============ Matrix / Can-I-Deploy Operations ============
 
+  /**
+   * Matrix rows for a pacticipant in both roles. As a consumer: each of its
+   * pacts against the provider version tagged `toTag` (or the latest
+   * verification when no tag is given). As a provider: the pact of each
+   * consumer's latest version, or latest version tagged `toTag`, and this
+   * provider version's verification of it.
+   */
   async getMatrix(pacticipantName: string, version?: string, toTag?: string): Promise<MatrixRow[]> {
     const pacticipant = await this.getPacticipant(pacticipantName);
     if (!pacticipant) return [];
@@ -472,81 +1067,298 @@ export class PactBrokerDO extends DurableObject<Env> {
     // Get all pacts where this pacticipant is the consumer
     const consumerPacts = this.db
       .select({
-        pact: pacts,
+        pact: pactWithContentColumns,
         consumerVersion: versions,
+        provider: pacticipants,
       })
       .from(pacts)
+      .innerJoin(pactVersions, eq(pacts.pactVersionId, pactVersions.id))
       .innerJoin(versions, eq(pacts.consumerVersionId, versions.id))
+      .innerJoin(pacticipants, eq(pacts.providerId, pacticipants.id))
       .where(eq(versions.pacticipantId, pacticipant.id))
       .all();
 
     const rows: MatrixRow[] = [];
 
     // Process consumer pacts
-    for (const { pact, consumerVersion } of consumerPacts) {
+    for (const { pact, consumerVersion, provider } of consumerPacts) {
       if (version && consumerVersion.number !== version) continue;
 
-      const consumer = this.db
-        .select()
-        .from(pacticipants)
-        .where(eq(pacticipants.id, consumerVersion.pacticipantId))
-        .get();
-      const provider = this.db
-        .select()
-        .from(pacticipants)
-        .where(eq(pacticipants.id, pact.providerId))
-        .get();
-
-      if (!consumer || !provider) continue;
-
       // Get latest verification for target tag if specified
+      let providerVersion: Version | undefined;
       let verification: Verification | undefined;
       if (toTag) {
-        const providerVersion = await this.getLatestVersionByTag(provider.name, toTag);
+        providerVersion = await this.getLatestVersionByTag(provider.name, toTag);
         if (providerVersion) {
-          verification = this.db
-            .select()
-            .from(verifications)
-            .where(
-              and(
-                eq(verifications.pactId, pact.id),
-                eq(verifications.providerVersionId, providerVersion.id),
-              ),
-            )
-            .orderBy(desc(verifications.verifiedAt))
-            .get();
+          verification = this.latestVerification(
+            pact.pactVersionId,
+            providerVersion.id,
+          )?.verification;
         }
       } else {
-        verification = this.db
-          .select()
-          .from(verifications)
-          .where(eq(verifications.pactId, pact.id))
-          .orderBy(desc(verifications.verifiedAt))
-          .get();
+        ({ verification, providerVersion } = this.latestVerification(pact.pactVersionId) ?? {});
       }
 
-      rows.push({
-        consumer: { name: consumer.name, version: consumerVersion.number },
-        provider: { name: provider.name, version: null },
-        pactVersion: { sha: pact.contentSha },
-        verificationResult: verification
-          ? {
-              success: verification.success,
-              verifiedAt: verification.verifiedAt,
-            }
-          : null,
-      });
+      rows.push(
+        matrixRow(
+          pacticipant.name,
+          consumerVersion,
+          provider.name,
+          providerVersion,
+          pact,
+          verification,
+        ),
+      );
+    }
+
+    // Process provider pacts: the candidate version's verification of each
+    // consumer's latest (or latest tagged) pact.
+    const candidate = version ? await this.getVersion(pacticipantName, version) : undefined;
+    if (version && !candidate) return rows;
+
+    for (const consumerRows of groupByConsumer(this.publicationsForProvider(pacticipant.id))) {
+      const publication = toTag
+        ? consumerRows.find((r) => r.tags.includes(toTag))
+        : consumerRows[0];
+      if (!publication) continue;
+
+      const latest = this.latestVerification(publication.pact.pactVersionId, candidate?.id);
+      rows.push(
+        matrixRow(
+          publication.consumer.name,
+          publication.version,
+          pacticipant.name,
+          candidate ?? latest?.providerVersion,
+          publication.pact,
+          latest?.verification,
+        ),
+      );
     }
 
     return rows;
   }
 
+  // Most recent verification of a pact version, optionally by one provider version.
+  private latestVerification(
+    pactVersionId: number,
+    providerVersionId?: number,
+  ): { verification: Verification; providerVersion: Version } | undefined {
+    return this.db
+      .select({ verification: verifications, providerVersion: versions })
+      .from(verifications)
+      .innerJoin(versions, eq(verifications.providerVersionId, versions.id))
+      .where(
+        and(
+          eq(verifications.pactVersionId, pactVersionId),
+          providerVersionId === undefined
+            ? undefined
+            : eq(verifications.providerVersionId, providerVersionId),
+        ),
+      )
+      .orderBy(desc(verifications.verifiedAt), desc(verifications.id))
+      .get();
+  }
+
+  /**
+   * Evaluate a matrix query. Rows pair each pact publication with each
+   * verification of its content; a publication nobody has verified gives a
+   * single row without a verification. With several selectors only rows
+   * between the selected pacticipants are returned; with one, every
+   * integration of that pacticipant, its counterparts narrowed by the
+   * query's top-level `latest`/`tag`/`environment`.
+   */
+  async queryMatrix(query: MatrixQuery): Promise<MatrixRow[]> {
+    const selected = new Map<number, Set<number> | null>();
+    for (const selector of query.selectors) {
+      // A label selector stands for every pacticipant carrying the label
+      let matched: Pacticipant[] = [];
+      if (selector.label) {
+        matched = this.pacticipantsLabelled(selector.label);
+      } else if (selector.pacticipant) {
+        const pacticipant = await this.getPacticipant(selector.pacticipant);
+        if (pacticipant) matched = [pacticipant];
+      }
+      if (matched.length === 0) return [];
+      for (const pacticipant of matched) {
+        const versionIds = this.resolveMatrixSelector(pacticipant.id, selector);
+        const existing = selected.get(pacticipant.id);
+        if (existing === undefined) {
+          selected.set(pacticipant.id, versionIds);
+        } else if (existing !== null) {
+          selected.set(
+            pacticipant.id,
+            versionIds === null ? null : new Set([...existing, ...versionIds]),
+          );
+        }
+      }
+    }
+
+    const selectedIds = Array.from(selected.keys());
+    const consumers = alias(pacticipants, "consumers");
+    const providers = alias(pacticipants, "providers");
+    const publications = this.db
+      .select({
+        pact: pactWithContentColumns,
+        consumerVersion: versions,
+        consumer: consumers,
+        provider: providers,
+      })
+      .from(pacts)
+      .innerJoin(pactVersions, eq(pacts.pactVersionId, pactVersions.id))
+      .innerJoin(versions, eq(pacts.consumerVersionId, versions.id))
+      .innerJoin(consumers, eq(versions.pacticipantId, consumers.id))
+      .innerJoin(providers, eq(pacts.providerId, providers.id))
+      .where(
+        selectedIds.length > 1
+          ? and(inArray(consumers.id, selectedIds), inArray(providers.id, selectedIds))
+          : or(inArray(consumers.id, selectedIds), inArray(providers.id, selectedIds)),
+      )
+      .orderBy(desc(versions.createdAt), desc(versions.id))
+      .all();
+
+    // Versions of an unselected counterpart allowed by the top-level target
+    const hasTarget = Boolean(query.latest || query.tag || query.environment);
+    const targets = new Map<number, Set<number>>();
+    const targetFor = (pacticipantId: number): Set<number> | null => {
+      if (!hasTarget || selected.has(pacticipantId)) return selected.get(pacticipantId) ?? null;
+      let target = targets.get(pacticipantId);
+      if (!target) {
+        target =
+          this.resolveMatrixSelector(pacticipantId, {
+            latest: true,
+            tag: query.tag,
+            environment: query.environment,
+          }) ?? new Set();
+        targets.set(pacticipantId, target);
+      }
+      return target;
+    };
+
+    const rows: Array<MatrixRow & { key: { cvp: string; cvpv: string } }> = [];
+    for (const { pact, consumerVersion, consumer, provider } of publications) {
+      const consumerVersions = targetFor(consumer.id);
+      if (consumerVersions && !consumerVersions.has(consumerVersion.id)) continue;
+
+      const providerVersions = targetFor(provider.id);
+      const verified = this.db
+        .select({ verification: verifications, providerVersion: versions })
+        .from(verifications)
+        .innerJoin(versions, eq(verifications.providerVersionId, versions.id))
+        .where(eq(verifications.pactVersionId, pact.pactVersionId))
+        .orderBy(desc(verifications.verifiedAt), desc(verifications.id))
+        .all()
+        .filter((v) => !providerVersions || providerVersions.has(v.providerVersion.id));
+
+      const cvp = `${consumerVersion.id}|${provider.id}`;
+      if (verified.length === 0) {
+        // Name the provider version when exactly one is in question
+        const [onlyVersionId, ...others] = providerVersions ?? [];
+        const providerVersion =
+          onlyVersionId !== undefined && others.length === 0
+            ? this.db.select().from(versions).where(eq(versions.id, onlyVersionId)).get()
+            : undefined;
+        rows.push({
+          ...matrixRow(
+            consumer.name,
+            consumerVersion,
+            provider.name,
+            providerVersion,
+            pact,
+            undefined,
+          ),
+          key: { cvp, cvpv: `${cvp}|${providerVersion?.id ?? ""}` },
+        });
+        continue;
+      }
+      for (const { verification, providerVersion } of verified) {
+        rows.push({
+          ...matrixRow(
+            consumer.name,
+            consumerVersion,
+            provider.name,
+            providerVersion,
+            pact,
+            verification,
+          ),
+          key: { cvp, cvpv: `${cvp}|${providerVersion.id}` },
+        });
+      }
+    }
+
+    // Rows are newest first within each publication, so the first row for a
+    // key is its latest.
+    const seen = new Set<string>();
+    const deduped = query.latestby
+      ? rows.filter((row) => {
+          const key = row.key[query.latestby!];
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+      : rows;
+
+    const success = query.success ?? [];
+    return deduped
+      .filter(
+        (row) =>
+          success.length === 0 ||
+          (row.verificationResult != null && success.includes(row.verificationResult.success)),
+      )
+      .slice(0, query.limit ?? DEFAULT_MATRIX_LIMIT)
+      .map(({ key: _key, ...row }) => row);
+  }
+
+  // Version ids of a pacticipant matched by a matrix selector; null means
+  // every version.
+  private resolveMatrixSelector(
+    pacticipantId: number,
+    selector: Omit<MatrixSelector, "pacticipant" | "label">,
+  ): Set<number> | null {
+    if (
+      !selector.version &&
+      !selector.latest &&
+      !selector.tag &&
+      !selector.branch &&
+      !selector.environment
+    ) {
+      return null;
+    }
+
+    const matches = this.db
+      .selectDistinct({ id: versions.id })
+      .from(versions)
+      .leftJoin(tags, eq(tags.versionId, versions.id))
+      .where(
+        and(
+          eq(versions.pacticipantId, pacticipantId),
+          selector.version ? eq(versions.number, selector.version) : undefined,
+          selector.tag ? eq(tags.name, selector.tag) : undefined,
+          selector.branch
+            ? inArray(versions.id, this.versionIdsOnBranch(pacticipantId, selector.branch))
+            : undefined,
+          selector.environment
+            ? inArray(
+                versions.id,
+                this.versionsInEnvironment(pacticipantId, selector.environment).map((v) => v.id),
+              )
+            : undefined,
+        ),
+      )
+      .orderBy(desc(versions.createdAt), desc(versions.id))
+      .all();
+
+    // Deployments and releases are never narrowed to the latest version
+    const ids = selector.latest && !selector.environment ? matches.slice(0, 1) : matches;
+    return new Set(ids.map((m) => m.id));
+  }
+
   async canIDeploy(
     pacticipantName: string,
     version: string,
     toTag?: string,
+    ignore: CanIDeployIgnore[] = [],
   ): Promise<{ deployable: boolean; reason: string; matrix: MatrixRow[] }> {
-    const matrix = await this.getMatrix(pacticipantName, version, toTag);
+    const matrix = markIgnored(await this.getMatrix(pacticipantName, version, toTag), ignore);
 
     if (matrix.length === 0) {
       return {
@@ -556,9 +1368,15 @@ export class PactBrokerDO extends DurableObject<Env> {
       };
     }
 
-    const unverified = matrix.filter((row) => !row.verificationResult);
+    const unverified = matrix.filter((row) => !row.ignored && !row.verificationResult);
+    // A failed verification of a pact that was still pending doesn't block
+    // the provider; the consumer remains blocked until it passes.
     const failed = matrix.filter(
-      (row) => row.verificationResult && !row.verificationResult.success,
+      (row) =>
+        !row.ignored &&
+        row.verificationResult &&
+        !row.verificationResult.success &&
+        !(row.verificationResult.pending && row.provider.name === pacticipantName),
     );
 
     if (unverified.length > 0) {
@@ -584,30 +1402,339 @@ export class PactBrokerDO extends DurableObject<Env> {
     };
   }
 
+  /**
+   * can-i-deploy that waits for missing verification results. The decision
+   * is re-evaluated each time a verification is published, until every
+   * matrix row has a result or `waitMs` has passed, and the last decision
+   * is returned either way.
+   */
+  async canIDeployWaiting(
+    pacticipantName: string,
+    version: string,
+    options: { toTag?: string; environment?: string; ignore?: CanIDeployIgnore[] },
+    waitMs: number,
+  ): Promise<{ deployable: boolean; reason: string; matrix: MatrixRow[] }> {
+    const deadline = Date.now() + waitMs;
+    for (;;) {
+      const result = options.environment
+        ? await this.canIDeployToEnvironment(
+            pacticipantName,
+            version,
+            options.environment,
+            options.ignore,
+          )
+        : await this.canIDeploy(pacticipantName, version, options.toTag, options.ignore);
+      const remaining = deadline - Date.now();
+      const known = result.matrix.every((row) => row.ignored || row.verificationResult);
+      if (remaining <= 0 || known) return result;
+      await this.nextVerification(remaining);
+    }
+  }
+
+  // Resolves when a verification is published, or after `timeoutMs`.
+  private nextVerification(timeoutMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.verificationWaiters.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, timeoutMs);
+      this.verificationWaiters.add(wake);
+    });
+  }
+
+  /**
+   * can-i-deploy against what is actually deployed. As a consumer, the
+   * candidate version's pacts are checked against the version of each
+   * provider currently deployed to the environment, and every released
+   * version still supported there; a provider with neither is reported as a
+   * missing row, since the consumer would be talking to a provider that isn't
+   * running. As a provider, the candidate must have verified the pact of
+   * every consumer version deployed or supported there.
+   */
+  async canIDeployToEnvironment(
+    pacticipantName: string,
+    versionNumber: string,
+    environmentName: string,
+    ignore: CanIDeployIgnore[] = [],
+  ): Promise<{ deployable: boolean; reason: string; matrix: MatrixRow[] }> {
+    const pacticipant = await this.getPacticipant(pacticipantName);
+    const version = await this.getVersion(pacticipantName, versionNumber);
+    const environment = await this.getEnvironment(environmentName);
+    // An unknown version must never pass the gate
+    if (!pacticipant || !version) {
+      return {
+        deployable: false,
+        reason: `Version ${versionNumber} of ${pacticipantName} not found`,
+        matrix: [],
+      };
+    }
+    if (!environment) {
+      return { deployable: false, reason: `Environment ${environmentName} not found`, matrix: [] };
+    }
+
+    const checks = this.environmentChecks(pacticipant, version, environment, new Map());
+    const matrix = markIgnored(
+      checks.map((check) => check.row),
+      ignore,
+    );
+    const problems = checks
+      .filter((check, i) => !check.ok && !matrix[i]!.ignored)
+      .map((check) => check.message);
+
+    if (matrix.length === 0) {
+      return { deployable: true, reason: "No pacts found for this version", matrix };
+    }
+    if (problems.length > 0) {
+      return { deployable: false, reason: problems.join("\n"), matrix };
+    }
+    return {
+      deployable: true,
+      reason: "All required verification results are published and successful",
+      matrix,
+    };
+  }
+
+  /**
+   * can-i-deploy for several pacticipant versions released to one
+   * environment together. Each candidate is checked as in
+   * canIDeployToEnvironment, except that the other candidates stand in for
+   * whatever version of their pacticipant is deployed there now. Pairs
+   * within the batch are checked once, from the consumer side.
+   */
+  async canIDeployBatch(
+    environmentName: string,
+    candidates: Array<{ pacticipant: string; version: string }>,
+  ): Promise<
+    | {
+        deployable: boolean;
+        reason: string;
+        pairs: Array<{ row: MatrixRow; ok: boolean; message: string }>;
+      }
+    | { notFound: string }
+  > {
+    const environment = await this.getEnvironment(environmentName);
+    if (!environment) return { notFound: `Environment ${environmentName} not found` };
+
+    const batch = new Map<number, { pacticipant: Pacticipant; version: Version }>();
+    for (const candidate of candidates) {
+      const pacticipant = await this.getPacticipant(candidate.pacticipant);
+      const version = await this.getVersion(candidate.pacticipant, candidate.version);
+      if (!pacticipant || !version) {
+        return { notFound: `Version ${candidate.version} of ${candidate.pacticipant} not found` };
+      }
+      batch.set(pacticipant.id, { pacticipant, version });
+    }
+
+    const batchVersions = new Map(Array.from(batch, ([id, { version }]) => [id, version]));
+    const pairs = Array.from(batch.values()).flatMap(({ pacticipant, version }) =>
+      this.environmentChecks(pacticipant, version, environment, batchVersions),
+    );
+    const problems = pairs.filter((pair) => !pair.ok).map((pair) => pair.message);
+
+    if (pairs.length === 0) {
+      return { deployable: true, reason: "No pacts found for these versions", pairs };
+    }
+    if (problems.length > 0) {
+      return { deployable: false, reason: problems.join("\n"), pairs };
+    }
+    return {
+      deployable: true,
+      reason: "All required verification results are published and successful",
+      pairs,
+    };
+  }
+
+  // The pairs a version must satisfy to be deployed to an environment.
+  // `batch` maps pacticipant ids to versions being deployed alongside it,
+  // which replace that pacticipant's currently deployed versions.
+  private environmentChecks(
+    pacticipant: Pacticipant,
+    version: Version,
+    environment: Environment,
+    batch: Map<number, Version>,
+  ): Array<{ row: MatrixRow; ok: boolean; message: string }> {
+    const checks: Array<{ row: MatrixRow; ok: boolean; message: string }> = [];
+    const candidate = `version ${version.number} of ${pacticipant.name}`;
+    const check = (row: MatrixRow, between: string, verification: Verification | undefined) => {
+      if (!verification) {
+        checks.push({ row, ok: false, message: `There is no verified pact between ${between}` });
+      } else if (
+        !verification.success &&
+        !(verification.pending && row.provider.name === pacticipant.name)
+      ) {
+        // A failed verification of a still-pending pact doesn't block the provider
+        checks.push({
+          row,
+          ok: false,
+          message: `The verification for the pact between ${between} failed`,
+        });
+      } else {
+        checks.push({
+          row,
+          ok: true,
+          message: `The verification for the pact between ${between} passed`,
+        });
+      }
+    };
+
+    const published = this.db
+      .select({ pact: pactWithContentColumns, provider: pacticipants })
+      .from(pacts)
+      .innerJoin(pactVersions, eq(pacts.pactVersionId, pactVersions.id))
+      .innerJoin(pacticipants, eq(pacts.providerId, pacticipants.id))
+      .where(eq(pacts.consumerVersionId, version.id))
+      .all();
+
+    for (const { pact, provider } of published) {
+      const alongside = batch.get(provider.id);
+      const deployed = alongside
+        ? [{ ...alongside, released: false }]
+        : this.versionsInEnvironment(provider.id, environment.name);
+
+      if (deployed.length === 0) {
+        checks.push({
+          row: matrixRow(pacticipant.name, version, provider.name, undefined, pact, undefined),
+          ok: false,
+          message: `There is no verified pact between ${candidate} and a version of ${provider.name} currently deployed to ${environment.name}`,
+        });
+        continue;
+      }
+
+      for (const providerVersion of deployed) {
+        const verification = this.latestVerification(
+          pact.pactVersionId,
+          providerVersion.id,
+        )?.verification;
+        const counterpart = alongside
+          ? `version ${providerVersion.number} of ${provider.name} being deployed alongside it`
+          : providerVersion.released
+            ? `a version of ${provider.name} currently released and supported in ${environment.name} (${providerVersion.number})`
+            : `the version of ${provider.name} currently deployed to ${environment.name} (${providerVersion.number})`;
+        check(
+          matrixRow(pacticipant.name, version, provider.name, providerVersion, pact, verification),
+          `${candidate} and ${counterpart}`,
+          verification,
+        );
+      }
+    }
+
+    // Consumers deployed to (or released and supported in) the environment
+    // that the candidate must satisfy. Consumers in the batch check their own
+    // pacts above.
+    for (const publication of this.publicationsForProvider(pacticipant.id)) {
+      if (batch.has(publication.consumer.id)) continue;
+      const deployedThere = publication.deployedTo.includes(environment.name);
+      if (!deployedThere && !publication.releasedIn.includes(environment.name)) continue;
+      const verification = this.latestVerification(
+        publication.pact.pactVersionId,
+        version.id,
+      )?.verification;
+      check(
+        matrixRow(
+          publication.consumer.name,
+          publication.version,
+          pacticipant.name,
+          version,
+          publication.pact,
+          verification,
+        ),
+        deployedThere
+          ? `the version of ${publication.consumer.name} currently deployed to ${environment.name} (${publication.version.number}) and ${candidate}`
+          : `a version of ${publication.consumer.name} currently released and supported in ${environment.name} (${publication.version.number}) and ${candidate}`,
+        verification,
+      );
+    }
+
+    return checks;
+  }
+
+  // ============ Can-I-Deploy Decision Log ============
+
+  /**
+   * Log can-i-deploy evaluations, one row each, so the log shows when and
+   * from which request every decision was made. Old rows are pruned on every
+   * insert.
+   */
+  async recordCanIDeployDecisions(decisions: NewCanIDeployDecision[]): Promise<void> {
+    if (decisions.length === 0) return;
+    this.ctx.storage.transactionSync(() => {
+      this.db.insert(canIDeployDecisions).values(decisions).run();
+      this.pruneCanIDeployDecisions();
+    });
+  }
+
+  private pruneCanIDeployDecisions(): void {
+    const cutoff = new Date(Date.now() - DECISION_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .replace("T", " ")
+      .slice(0, 19);
+    this.db.delete(canIDeployDecisions).where(lt(canIDeployDecisions.decidedAt, cutoff)).run();
+
+    const oldestKept = this.db
+      .select({ id: canIDeployDecisions.id })
+      .from(canIDeployDecisions)
+      .orderBy(desc(canIDeployDecisions.id))
+      .limit(1)
+      .offset(MAX_DECISIONS - 1)
+      .get();
+    if (oldestKept) {
+      this.db.delete(canIDeployDecisions).where(lt(canIDeployDecisions.id, oldestKept.id)).run();
+    }
+  }
+
+  // Newest first. `page` is 1-based.
+  async getCanIDeployDecisions(
+    filters: { pacticipant?: string; version?: string; environment?: string },
+    page: number,
+    size: number,
+  ): Promise<{ decisions: CanIDeployDecision[]; total: number }> {
+    const where = and(
+      filters.pacticipant ? eq(canIDeployDecisions.pacticipant, filters.pacticipant) : undefined,
+      filters.version ? eq(canIDeployDecisions.version, filters.version) : undefined,
+      filters.environment ? eq(canIDeployDecisions.environment, filters.environment) : undefined,
+    );
+    const decisions = this.db
+      .select()
+      .from(canIDeployDecisions)
+      .where(where)
+      .orderBy(desc(canIDeployDecisions.decidedAt), desc(canIDeployDecisions.id))
+      .limit(size)
+      .offset((page - 1) * size)
+      .all();
+    const total = this.db.select({ total: count() }).from(canIDeployDecisions).where(where).get();
+    return { decisions, total: total?.total ?? 0 };
+  }
+
   // ============ Environment Operations ============
 
   async getOrCreateEnvironment(
     name: string,
-    displayName?: string,
+    displayName?: string | null,
     production?: boolean,
+    contacts?: EnvironmentContact[] | null,
   ): Promise<Environment> {
     const existing = this.db.select().from(environments).where(eq(environments.name, name)).get();
+    const contactsJson = contacts ? JSON.stringify(contacts) : null;
 
     if (existing) {
       // Update if values provided
-      if (displayName !== undefined || production !== undefined) {
+      if (displayName !== undefined || production !== undefined || contacts !== undefined) {
         this.db
           .update(environments)
           .set({
             ...(displayName !== undefined && { displayName }),
             ...(production !== undefined && { production }),
+            ...(contacts !== undefined && { contacts: contactsJson }),
           })
           .where(eq(environments.id, existing.id))
           .run();
         return {
           ...existing,
-          displayName: displayName ?? existing.displayName,
+          displayName: displayName === undefined ? existing.displayName : displayName,
           production: production ?? existing.production,
+          contacts: contacts === undefined ? existing.contacts : contactsJson,
         };
       }
       return existing;
@@ -615,7 +1742,7 @@ export class PactBrokerDO extends DurableObject<Env> {
 
     return this.db
       .insert(environments)
-      .values({ name, displayName, production: production ?? false })
+      .values({ name, displayName, production: production ?? false, contacts: contactsJson })
       .returning()
       .get();
   }
@@ -624,52 +1751,177 @@ export class PactBrokerDO extends DurableObject<Env> {
     return this.db.select().from(environments).where(eq(environments.name, name)).get();
   }
 
+  async getEnvironmentByUuid(uuid: string): Promise<Environment | undefined> {
+    return this.db.select().from(environments).where(eq(environments.uuid, uuid)).get();
+  }
+
+  /**
+   * Replace an environment's attributes. Omitted fields are cleared; the name
+   * is kept unless given, and renaming onto another environment's name is a
+   * conflict.
+   */
+  async putEnvironment(
+    uuid: string,
+    input: EnvironmentRequest,
+  ): Promise<Environment | { conflict: string } | null> {
+    const existing = await this.getEnvironmentByUuid(uuid);
+    if (!existing) return null;
+
+    const name = input.name ?? existing.name;
+    if (name !== existing.name && (await this.getEnvironment(name))) {
+      return { conflict: `An environment named ${name} already exists` };
+    }
+
+    return this.db
+      .update(environments)
+      .set({
+        name,
+        displayName: input.displayName ?? null,
+        production: input.production ?? false,
+        contacts: input.contacts ? JSON.stringify(input.contacts) : null,
+      })
+      .where(eq(environments.id, existing.id))
+      .returning()
+      .get();
+  }
+
+  /**
+   * Delete an environment. Its deployments and releases are moved to the
+   * archive instead of being dropped with it; still current deployments are
+   * marked undeployed now, releases keep their support-ended state.
+   */
+  async deleteEnvironment(uuid: string): Promise<boolean> {
+    const environment = await this.getEnvironmentByUuid(uuid);
+    if (!environment) return false;
+
+    const now = new Date().toISOString().replace("T", " ").slice(0, 19);
+    this.ctx.storage.transactionSync(() => {
+      const deployments = this.db
+        .select()
+        .from(deployedVersions)
+        .where(eq(deployedVersions.environmentId, environment.id))
+        .all();
+      if (deployments.length > 0) {
+        this.db
+          .insert(archivedDeployments)
+          .values(
+            deployments.map((d) => ({
+              versionId: d.versionId,
+              environmentName: environment.name,
+              environmentUuid: environment.uuid,
+              applicationInstance: d.applicationInstance,
+              deployedAt: d.deployedAt,
+              undeployedAt: d.undeployedAt ?? now,
+              archivedAt: now,
+            })),
+          )
+          .run();
+      }
+      const releases = this.db
+        .select()
+        .from(releasedVersions)
+        .where(eq(releasedVersions.environmentId, environment.id))
+        .all();
+      if (releases.length > 0) {
+        this.db
+          .insert(archivedReleases)
+          .values(
+            releases.map((r) => ({
+              versionId: r.versionId,
+              environmentName: environment.name,
+              environmentUuid: environment.uuid,
+              releasedAt: r.releasedAt,
+              supportEndedAt: r.supportEndedAt,
+              archivedAt: now,
+            })),
+          )
+          .run();
+      }
+      this.db
+        .delete(deployedVersions)
+        .where(eq(deployedVersions.environmentId, environment.id))
+        .run();
+      this.db
+        .delete(releasedVersions)
+        .where(eq(releasedVersions.environmentId, environment.id))
+        .run();
+      this.db.delete(environments).where(eq(environments.id, environment.id)).run();
+    });
+    return true;
+  }
+
   async getAllEnvironments(): Promise<Environment[]> {
     return this.db.select().from(environments).all();
   }
 
   // ============ Deployment Operations ============
 
+  /**
+   * Record a deployment. The version of the pacticipant previously deployed
+   * to the same application instance of the environment is marked
+   * undeployed; other instances are left alone. Recording the version that is
+   * already deployed to the instance is a no-op.
+   */
   async recordDeployment(
     pacticipantName: string,
     versionNumber: string,
     environmentName: string,
+    applicationInstance?: string,
   ): Promise<DeployedVersion | null> {
     const version = await this.getVersion(pacticipantName, versionNumber);
     if (!version) return null;
 
     const environment = await this.getOrCreateEnvironment(environmentName);
 
-    // Check if already deployed (and not undeployed)
-    const existing = this.db
-      .select()
+    const current = this.db
+      .select({ deployment: deployedVersions })
       .from(deployedVersions)
+      .innerJoin(versions, eq(deployedVersions.versionId, versions.id))
       .where(
         and(
-          eq(deployedVersions.versionId, version.id),
+          eq(versions.pacticipantId, version.pacticipantId),
           eq(deployedVersions.environmentId, environment.id),
+          this.sameApplicationInstance(applicationInstance),
           isNull(deployedVersions.undeployedAt),
         ),
       )
-      .get();
+      .all()
+      .map((row) => row.deployment);
 
+    const existing = current.find((d) => d.versionId === version.id);
     if (existing) return existing;
 
-    // If there was a previous deployment that was undeployed, create a new record
-    return this.db
-      .insert(deployedVersions)
-      .values({
-        versionId: version.id,
-        environmentId: environment.id,
-      })
-      .returning()
-      .get();
+    return this.ctx.storage.transactionSync(() => {
+      if (current.length > 0) {
+        this.db
+          .update(deployedVersions)
+          .set({ undeployedAt: new Date().toISOString().replace("T", " ").slice(0, 19) })
+          .where(
+            inArray(
+              deployedVersions.id,
+              current.map((d) => d.id),
+            ),
+          )
+          .run();
+      }
+      return this.db
+        .insert(deployedVersions)
+        .values({
+          versionId: version.id,
+          environmentId: environment.id,
+          applicationInstance: applicationInstance ?? null,
+        })
+        .returning()
+        .get();
+    });
   }
 
+  /** Undeploy a version from one application instance of an environment. */
   async recordUndeployment(
     pacticipantName: string,
     versionNumber: string,
     environmentName: string,
+    applicationInstance?: string,
   ): Promise<boolean> {
     const version = await this.getVersion(pacticipantName, versionNumber);
     if (!version) return false;
@@ -685,6 +1937,7 @@ export class PactBrokerDO extends DurableObject<Env> {
         and(
           eq(deployedVersions.versionId, version.id),
           eq(deployedVersions.environmentId, environment.id),
+          this.sameApplicationInstance(applicationInstance),
           isNull(deployedVersions.undeployedAt),
         ),
       )
@@ -703,6 +1956,13 @@ export class PactBrokerDO extends DurableObject<Env> {
     return true;
   }
 
+  /** Deployments without an application instance only match each other. */
+  private sameApplicationInstance(applicationInstance: string | undefined) {
+    return applicationInstance
+      ? eq(deployedVersions.applicationInstance, applicationInstance)
+      : isNull(deployedVersions.applicationInstance);
+  }
+
   async getDeploymentsForVersion(
     pacticipantName: string,
     versionNumber: string,
@@ -723,6 +1983,104 @@ export class PactBrokerDO extends DurableObject<Env> {
     return results;
   }
 
+  /** Deployments of a version to environments that have since been deleted. */
+  async getArchivedDeploymentsForVersion(
+    pacticipantName: string,
+    versionNumber: string,
+  ): Promise<ArchivedDeployment[]> {
+    const version = await this.getVersion(pacticipantName, versionNumber);
+    if (!version) return [];
+
+    return this.db
+      .select()
+      .from(archivedDeployments)
+      .where(eq(archivedDeployments.versionId, version.id))
+      .all();
+  }
+
+  /** Every deployment to an environment, newest first, optionally for one pacticipant. */
+  async getDeploymentsForEnvironment(
+    environmentName: string,
+    pacticipantName?: string,
+  ): Promise<Array<{
+    deployment: DeployedVersion;
+    version: Version;
+    pacticipant: Pacticipant;
+  }> | null> {
+    const environment = await this.getEnvironment(environmentName);
+    if (!environment) return null;
+
+    return this.db
+      .select({ deployment: deployedVersions, version: versions, pacticipant: pacticipants })
+      .from(deployedVersions)
+      .innerJoin(versions, eq(deployedVersions.versionId, versions.id))
+      .innerJoin(pacticipants, eq(versions.pacticipantId, pacticipants.id))
+      .where(
+        and(
+          eq(deployedVersions.environmentId, environment.id),
+          pacticipantName ? eq(pacticipants.name, pacticipantName) : undefined,
+        ),
+      )
+      .orderBy(desc(deployedVersions.deployedAt), desc(deployedVersions.id))
+      .all();
+  }
+
+  /** Versions currently deployed to an environment, optionally for one pacticipant. */
+  async getCurrentlyDeployedVersions(
+    environmentName: string,
+    pacticipantName?: string,
+  ): Promise<Array<{
+    deployment: DeployedVersion;
+    version: Version;
+    pacticipant: Pacticipant;
+  }> | null> {
+    const environment = await this.getEnvironment(environmentName);
+    if (!environment) return null;
+
+    return this.db
+      .select({ deployment: deployedVersions, version: versions, pacticipant: pacticipants })
+      .from(deployedVersions)
+      .innerJoin(versions, eq(deployedVersions.versionId, versions.id))
+      .innerJoin(pacticipants, eq(versions.pacticipantId, pacticipants.id))
+      .where(
+        and(
+          eq(deployedVersions.environmentId, environment.id),
+          isNull(deployedVersions.undeployedAt),
+          pacticipantName ? eq(pacticipants.name, pacticipantName) : undefined,
+        ),
+      )
+      .orderBy(asc(pacticipants.name), desc(deployedVersions.deployedAt), desc(deployedVersions.id))
+      .all();
+  }
+
+  /** Released versions still supported in an environment, optionally for one pacticipant. */
+  async getCurrentlySupportedVersions(
+    environmentName: string,
+    pacticipantName?: string,
+  ): Promise<Array<{
+    release: ReleasedVersion;
+    version: Version;
+    pacticipant: Pacticipant;
+  }> | null> {
+    const environment = await this.getEnvironment(environmentName);
+    if (!environment) return null;
+
+    return this.db
+      .select({ release: releasedVersions, version: versions, pacticipant: pacticipants })
+      .from(releasedVersions)
+      .innerJoin(versions, eq(releasedVersions.versionId, versions.id))
+      .innerJoin(pacticipants, eq(versions.pacticipantId, pacticipants.id))
+      .where(
+        and(
+          eq(releasedVersions.environmentId, environment.id),
+          isNull(releasedVersions.supportEndedAt),
+          pacticipantName ? eq(pacticipants.name, pacticipantName) : undefined,
+        ),
+      )
+      .orderBy(asc(pacticipants.name), desc(releasedVersions.releasedAt), desc(releasedVersions.id))
+      .all();
+  }
+
   async isVersionDeployed(
     pacticipantName: string,
     versionNumber: string,
@@ -757,131 +2115,522 @@ export class PactBrokerDO extends DurableObject<Env> {
       .where(and(eq(deployedVersions.versionId, version.id), isNull(deployedVersions.undeployedAt)))
       .get();
 
-    return !!deployment;
+    return !!deployment;
+  }
+
+  // ============ Release Operations ============
+
+  /** Record a release. Recording a version that is still supported is a no-op. */
+  async recordRelease(
+    pacticipantName: string,
+    versionNumber: string,
+    environmentName: string,
+  ): Promise<{ release: ReleasedVersion; created: boolean } | null> {
+    const version = await this.getVersion(pacticipantName, versionNumber);
+    if (!version) return null;
+
+    const environment = await this.getOrCreateEnvironment(environmentName);
+    const existing = this.supportedRelease(version.id, environment.id);
+    if (existing) return { release: existing, created: false };
+
+    const release = this.db
+      .insert(releasedVersions)
+      .values({ versionId: version.id, environmentId: environment.id })
+      .returning()
+      .get();
+    return { release, created: true };
+  }
+
+  async recordSupportEnded(
+    pacticipantName: string,
+    versionNumber: string,
+    environmentName: string,
+  ): Promise<boolean> {
+    const version = await this.getVersion(pacticipantName, versionNumber);
+    if (!version) return false;
+
+    const environment = await this.getEnvironment(environmentName);
+    if (!environment) return false;
+
+    const existing = this.supportedRelease(version.id, environment.id);
+    if (!existing) return false;
+
+    this.db
+      .update(releasedVersions)
+      .set({
+        supportEndedAt: new Date().toISOString().replace("T", " ").slice(0, 19),
+      })
+      .where(eq(releasedVersions.id, existing.id))
+      .run();
+
+    return true;
+  }
+
+  async getReleasesForVersion(
+    pacticipantName: string,
+    versionNumber: string,
+  ): Promise<Array<{ release: ReleasedVersion; environment: Environment }>> {
+    const version = await this.getVersion(pacticipantName, versionNumber);
+    if (!version) return [];
+
+    return this.db
+      .select({ release: releasedVersions, environment: environments })
+      .from(releasedVersions)
+      .innerJoin(environments, eq(releasedVersions.environmentId, environments.id))
+      .where(eq(releasedVersions.versionId, version.id))
+      .all();
+  }
+
+  /** Releases of a version to environments that have since been deleted. */
+  async getArchivedReleasesForVersion(
+    pacticipantName: string,
+    versionNumber: string,
+  ): Promise<ArchivedRelease[]> {
+    const version = await this.getVersion(pacticipantName, versionNumber);
+    if (!version) return [];
+
+    return this.db
+      .select()
+      .from(archivedReleases)
+      .where(eq(archivedReleases.versionId, version.id))
+      .all();
+  }
+
+  private supportedRelease(versionId: number, environmentId: number): ReleasedVersion | undefined {
+    return this.db
+      .select()
+      .from(releasedVersions)
+      .where(
+        and(
+          eq(releasedVersions.versionId, versionId),
+          eq(releasedVersions.environmentId, environmentId),
+          isNull(releasedVersions.supportEndedAt),
+        ),
+      )
+      .get();
+  }
+
+  /**
+   * A pacticipant's versions currently in an environment: deployed there, or
+   * released there and still supported. A version that is both counts as
+   * deployed.
+   */
+  private versionsInEnvironment(
+    pacticipantId: number,
+    environmentName: string,
+  ): Array<Version & { released: boolean }> {
+    // A version running on several application instances is listed once.
+    const deployed = this.db
+      .selectDistinct({ version: versions })
+      .from(deployedVersions)
+      .innerJoin(versions, eq(deployedVersions.versionId, versions.id))
+      .innerJoin(environments, eq(deployedVersions.environmentId, environments.id))
+      .where(
+        and(
+          eq(versions.pacticipantId, pacticipantId),
+          eq(environments.name, environmentName),
+          isNull(deployedVersions.undeployedAt),
+        ),
+      )
+      .all()
+      .map((row) => ({ ...row.version, released: false }));
+    const released = this.db
+      .select({ version: versions })
+      .from(releasedVersions)
+      .innerJoin(versions, eq(releasedVersions.versionId, versions.id))
+      .innerJoin(environments, eq(releasedVersions.environmentId, environments.id))
+      .where(
+        and(
+          eq(versions.pacticipantId, pacticipantId),
+          eq(environments.name, environmentName),
+          isNull(releasedVersions.supportEndedAt),
+        ),
+      )
+      .orderBy(desc(versions.createdAt), desc(versions.id))
+      .all()
+      .filter((row) => !deployed.some((d) => d.id === row.version.id))
+      .map((row) => ({ ...row.version, released: true }));
+    return [...deployed, ...released];
   }
 
   // ============ Pacts For Verification ============
 
+  /**
+   * Resolve consumer version selectors to the pacts a provider should verify.
+   * Selectors are evaluated against every consumer version that published a
+   * pact for this provider, not just the latest ones. Results are
+   * de-duplicated by content: one entry per pact version, listing every
+   * selected consumer version and the criteria that selected it.
+   *
+   * With `includePendingStatus`, each pact is flagged pending until the
+   * provider has verified its content successfully on `providerVersionBranch`
+   * (or on any branch, when no branch is given). With
+   * `includeWipPactsSince`, work-in-progress pacts are appended: see
+   * findWipPacts.
+   */
   async getPactsForVerification(
     providerName: string,
     selectors: ConsumerVersionSelector[],
-  ): Promise<
-    Array<{
-      pact: Pact;
-      consumer: Pacticipant;
-      provider: Pacticipant;
-      version: Version;
-      notices: string[];
-    }>
-  > {
+    options: {
+      includePendingStatus?: boolean;
+      providerVersionBranch?: string;
+      includeWipPactsSince?: string;
+    } = {},
+  ): Promise<PactForVerificationResult[]> {
     const provider = await this.getPacticipant(providerName);
     if (!provider) return [];
 
-    // Start with all latest pacts for this provider
-    let results = await this.getLatestPactsForProvider(providerName);
+    const publications = this.publicationsForProvider(provider.id);
+
+    // No selectors means the latest pact from each consumer
+    const effectiveSelectors = selectors && selectors.length > 0 ? selectors : [{ latest: true }];
+
+    const byPactVersion = new Map<number, Omit<SelectedPact, "pending" | "wip">>();
+    for (const selector of effectiveSelectors) {
+      for (const { row, criterion } of this.applySelector(
+        publications,
+        selector,
+        options.providerVersionBranch,
+      )) {
+        const existing = byPactVersion.get(row.pact.pactVersionId);
+        if (!existing) {
+          byPactVersion.set(row.pact.pactVersionId, {
+            pact: row.pact,
+            consumer: row.consumer,
+            provider,
+            version: row.version,
+            versions: [row.version],
+            notices: [criterion],
+          });
+          continue;
+        }
+        if (!existing.notices.includes(criterion)) existing.notices.push(criterion);
+        if (!existing.versions.some((v) => v.id === row.version.id)) {
+          existing.versions.push(row.version);
+          existing.versions.sort(compareNewestFirst);
+        }
+        // Represent the content by its newest selected consumer version
+        if (existing.versions[0]!.id === row.version.id) {
+          existing.pact = row.pact;
+          existing.version = row.version;
+        }
+      }
+    }
+
+    const selected = Array.from(byPactVersion.values()).map((r) => ({
+      ...r,
+      pending: options.includePendingStatus
+        ? !this.hasSuccessfulVerification(
+            r.pact.pactVersionId,
+            provider.id,
+            options.providerVersionBranch ? [options.providerVersionBranch] : [],
+          )
+        : false,
+      wip: false,
+    }));
+    if (!options.includeWipPactsSince) return this.withPactContent(selected);
+
+    const since = new Date(options.includeWipPactsSince);
+    if (Number.isNaN(since.getTime())) return this.withPactContent(selected);
+
+    return this.withPactContent([
+      ...selected,
+      ...this.findWipPacts(
+        provider,
+        publications,
+        // Stored timestamps are SQLite datetime('now'): "YYYY-MM-DD HH:MM:SS" UTC
+        since.toISOString().replace("T", " ").slice(0, 19),
+        options.providerVersionBranch,
+        new Set(byPactVersion.keys()),
+      ),
+    ]);
+  }
 
-    // If no selectors, default to latest
-    if (!selectors || selectors.length === 0) {
-      return results.map((r) => ({
-        ...r,
-        notices: ["This pact is being verified because it is the latest pact"],
-      }));
+  // Load the content of the selected pacts only, once the selection is final.
+  private withPactContent(selected: SelectedPact[]): PactForVerificationResult[] {
+    const ids = [...new Set(selected.map((r) => r.pact.pactVersionId))];
+    const contents = new Map<number, string>();
+    // Chunked so a long selection stays under SQLite's bound-parameter limit.
+    for (let i = 0; i < ids.length; i += CONTENT_LOAD_CHUNK_SIZE) {
+      const rows = this.db
+        .select({ id: pactVersions.id, content: pactVersions.content })
+        .from(pactVersions)
+        .where(inArray(pactVersions.id, ids.slice(i, i + CONTENT_LOAD_CHUNK_SIZE)))
+        .all();
+      for (const row of rows) contents.set(row.id, row.content);
     }
+    return selected.map((r) => ({
+      ...r,
+      pact: { ...r.pact, content: contents.get(r.pact.pactVersionId) ?? "" },
+    }));
+  }
 
-    const matchedPacts: Map<
-      number,
-      {
-        pact: Pact;
-        consumer: Pacticipant;
-        provider: Pacticipant;
-        version: Version;
-        notices: string[];
-      }
-    > = new Map();
+  // Every publication for the provider, newest consumer version first, with
+  // each version's branches, tags and the environments it is currently
+  // deployed to or released in. Pact content is not loaded.
+  private publicationsForProvider(providerId: number): PublicationRow[] {
+    const rows = this.db
+      .select({ pact: pactWithShaColumns, version: versions, consumer: pacticipants })
+      .from(pacts)
+      .innerJoin(pactVersions, eq(pacts.pactVersionId, pactVersions.id))
+      .innerJoin(versions, eq(pacts.consumerVersionId, versions.id))
+      .innerJoin(pacticipants, eq(versions.pacticipantId, pacticipants.id))
+      .where(eq(pacts.providerId, providerId))
+      .orderBy(desc(versions.createdAt), desc(versions.id))
+      .all();
+
+    const branchNames = namesByVersion(
+      this.db
+        .select({ versionId: branchVersions.versionId, name: branches.name })
+        .from(branchVersions)
+        .innerJoin(branches, eq(branchVersions.branchId, branches.id))
+        .innerJoin(pacts, eq(pacts.consumerVersionId, branchVersions.versionId))
+        .where(eq(pacts.providerId, providerId))
+        .all(),
+    );
+    const tagNames = namesByVersion(
+      this.db
+        .select({ versionId: tags.versionId, name: tags.name })
+        .from(tags)
+        .innerJoin(pacts, eq(pacts.consumerVersionId, tags.versionId))
+        .where(eq(pacts.providerId, providerId))
+        .all(),
+    );
+    const deployedTo = namesByVersion(
+      this.db
+        .selectDistinct({ versionId: deployedVersions.versionId, name: environments.name })
+        .from(deployedVersions)
+        .innerJoin(environments, eq(deployedVersions.environmentId, environments.id))
+        .innerJoin(pacts, eq(pacts.consumerVersionId, deployedVersions.versionId))
+        .where(and(eq(pacts.providerId, providerId), isNull(deployedVersions.undeployedAt)))
+        .all(),
+    );
+    const releasedIn = namesByVersion(
+      this.db
+        .select({ versionId: releasedVersions.versionId, name: environments.name })
+        .from(releasedVersions)
+        .innerJoin(environments, eq(releasedVersions.environmentId, environments.id))
+        .innerJoin(pacts, eq(pacts.consumerVersionId, releasedVersions.versionId))
+        .where(and(eq(pacts.providerId, providerId), isNull(releasedVersions.supportEndedAt)))
+        .all(),
+    );
 
-    for (const selector of selectors) {
-      let selectorResults = results;
-      const notices: string[] = [];
+    return rows.map((row) => ({
+      ...row,
+      branches: branchNames.get(row.version.id) ?? [],
+      tags: tagNames.get(row.version.id) ?? [],
+      deployedTo: deployedTo.get(row.version.id) ?? [],
+      releasedIn: releasedIn.get(row.version.id) ?? [],
+    }));
+  }
 
-      // Filter by consumer
-      if (selector.consumer) {
-        selectorResults = selectorResults.filter((r) => r.consumer.name === selector.consumer);
-        notices.push(`consumer is ${selector.consumer}`);
-      }
+  /**
+   * Evaluate one selector against the provider's publications. Branch
+   * selectors (`branch`, `mainBranch`, `matchingBranch`) pick the latest
+   * version per consumer unless `latest: false`; `tag` picks every tagged
+   * version unless `latest: true`. Fallbacks apply per consumer when the
+   * primary branch or tag has no versions. Deployment selectors are never
+   * narrowed to the latest version.
+   */
+  private applySelector(
+    publications: PublicationRow[],
+    selector: ConsumerVersionSelector,
+    providerVersionBranch: string | undefined,
+  ): Array<{ row: PublicationRow; criterion: string }> {
+    let rows = selector.consumer
+      ? publications.filter((r) => r.consumer.name === selector.consumer)
+      : publications;
+
+    const environment = selector.environment;
+    const wantsDeployed = Boolean(selector.deployed);
+    const wantsReleased = Boolean(selector.released);
+    const wantsEither =
+      Boolean(selector.deployedOrReleased) || (!!environment && !wantsDeployed && !wantsReleased);
+    const inEnvironment = (envs: string[]) =>
+      environment ? envs.filter((e) => e === environment) : envs;
+
+    if (wantsDeployed) rows = rows.filter((r) => inEnvironment(r.deployedTo).length > 0);
+    if (wantsReleased) rows = rows.filter((r) => inEnvironment(r.releasedIn).length > 0);
+    if (wantsEither) {
+      rows = rows.filter(
+        (r) => inEnvironment(r.deployedTo).length > 0 || inEnvironment(r.releasedIn).length > 0,
+      );
+    }
 
-      // Filter by tag
-      if (selector.tag) {
-        const filteredByTag: typeof selectorResults = [];
-        for (const r of selectorResults) {
-          const versionTags = await this.getTagsForVersion(r.consumer.name, r.version.number);
-          if (versionTags.some((t) => t.name === selector.tag)) {
-            filteredByTag.push(r);
-          }
-        }
-        selectorResults = filteredByTag;
-        notices.push(`version tagged with '${selector.tag}'`);
+    const describeDeployment = (r: PublicationRow): string | null => {
+      if (!wantsDeployed && !wantsReleased && !wantsEither) return null;
+      const deployed = inEnvironment(r.deployedTo);
+      const released = inEnvironment(r.releasedIn);
+      const parts: string[] = [];
+      if (deployed.length > 0 && (wantsDeployed || wantsEither)) {
+        parts.push(`currently deployed to ${deployed.join(", ")}`);
       }
-
-      // Filter by branch
-      if (selector.branch) {
-        selectorResults = selectorResults.filter((r) => r.version.branch === selector.branch);
-        notices.push(`version is on branch '${selector.branch}'`);
+      if (released.length > 0 && (wantsReleased || wantsEither)) {
+        parts.push(`currently released and supported in ${released.join(", ")}`);
       }
+      return `version of ${r.consumer.name} ${parts.join(" and ")} (${r.version.number})`;
+    };
 
-      // Filter by mainBranch
-      if (selector.mainBranch) {
-        const filteredByMainBranch: typeof selectorResults = [];
-        for (const r of selectorResults) {
-          const consumer = await this.getPacticipant(r.consumer.name);
-          if (consumer && r.version.branch === consumer.mainBranch) {
-            filteredByMainBranch.push(r);
-          }
-        }
-        selectorResults = filteredByMainBranch;
-        notices.push("version is on the main branch");
-      }
+    // Branch-style selectors: resolve the branch per consumer
+    const branchFor = (consumer: Pacticipant): string | null | undefined => {
+      if (selector.matchingBranch) return providerVersionBranch ?? null;
+      if (selector.mainBranch) return consumer.mainBranch ?? null;
+      return selector.branch;
+    };
+    const hasBranchCriterion = !!(
+      selector.branch ||
+      selector.mainBranch ||
+      selector.matchingBranch
+    );
 
-      // Filter by deployed
-      if (selector.deployed) {
-        const filteredByDeployed: typeof selectorResults = [];
-        for (const r of selectorResults) {
-          const isDeployed = await this.isVersionDeployed(
-            r.consumer.name,
-            r.version.number,
-            selector.environment,
+    if (hasBranchCriterion) {
+      const results: Array<{ row: PublicationRow; criterion: string }> = [];
+      for (const consumerRows of groupByConsumer(rows)) {
+        const consumer = consumerRows[0]!.consumer;
+        const branch = branchFor(consumer);
+        if (!branch) continue;
+        let matches = consumerRows.filter((r) => r.branches.includes(branch));
+        let label = selector.matchingBranch
+          ? `from branch '${branch}' matching the provider branch`
+          : selector.mainBranch
+            ? `from the main branch '${branch}'`
+            : `from branch '${branch}'`;
+        if (matches.length === 0 && selector.fallbackBranch) {
+          matches = consumerRows.filter((r) => r.branches.includes(selector.fallbackBranch!));
+          label = `from fallback branch '${selector.fallbackBranch}'`;
+        }
+        if (selector.tag) matches = matches.filter((r) => r.tags.includes(selector.tag!));
+        if (selector.latest === false) {
+          results.push(
+            ...matches.map((row) => ({
+              row,
+              criterion:
+                describeDeployment(row) ??
+                `one of ${consumer.name}'s versions ${label} (${row.version.number})`,
+            })),
           );
-          if (isDeployed) {
-            filteredByDeployed.push(r);
-          }
+        } else if (matches[0]) {
+          const row = matches[0];
+          results.push({
+            row,
+            criterion:
+              describeDeployment(row) ??
+              `latest version of ${consumer.name} ${label} (${row.version.number})`,
+          });
         }
-        selectorResults = filteredByDeployed;
-        notices.push(
-          selector.environment
-            ? `version is deployed to '${selector.environment}'`
-            : "version is currently deployed",
-        );
       }
+      return results;
+    }
 
-      // Latest selector just uses current results
-      if (selector.latest) {
-        notices.push("it is the latest pact");
+    if (selector.tag) {
+      const tag = selector.tag;
+      if (selector.latest !== true) {
+        return rows
+          .filter((r) => r.tags.includes(tag))
+          .map((row) => ({
+            row,
+            criterion:
+              describeDeployment(row) ??
+              `one of ${row.consumer.name}'s versions tagged '${tag}' (${row.version.number})`,
+          }));
       }
-
-      // Add matched pacts with notices
-      for (const r of selectorResults) {
-        const existing = matchedPacts.get(r.pact.id);
-        if (existing) {
-          existing.notices.push(...notices);
-        } else {
-          matchedPacts.set(r.pact.id, {
-            ...r,
-            notices: notices.length > 0 ? notices : ["it matches the consumer version selectors"],
+      const results: Array<{ row: PublicationRow; criterion: string }> = [];
+      for (const consumerRows of groupByConsumer(rows)) {
+        const consumer = consumerRows[0]!.consumer;
+        let row = consumerRows.find((r) => r.tags.includes(tag));
+        let label = `tagged '${tag}'`;
+        if (!row && selector.fallbackTag) {
+          row = consumerRows.find((r) => r.tags.includes(selector.fallbackTag!));
+          label = `tagged '${selector.fallbackTag}' (fallback tag)`;
+        }
+        if (row) {
+          results.push({
+            row,
+            criterion:
+              describeDeployment(row) ??
+              `latest version of ${consumer.name} ${label} (${row.version.number})`,
           });
         }
       }
+      return results;
+    }
+
+    if (wantsDeployed || wantsReleased || wantsEither) {
+      return rows.map((row) => ({ row, criterion: describeDeployment(row)! }));
+    }
+
+    // `latest: true` on its own, or a selector naming only a consumer
+    return groupByConsumer(rows).map((consumerRows) => {
+      const row = consumerRows[0]!;
+      return {
+        row,
+        criterion: `latest version of ${row.consumer.name} (${row.version.number})`,
+      };
+    });
+  }
+
+  /**
+   * Work-in-progress pacts: the latest pact for each consumer branch and
+   * each consumer tag, published at or after `since`, whose content the
+   * provider has not yet verified successfully on `providerVersionBranch`.
+   * Content already picked by the selectors is skipped. WIP pacts are
+   * always pending, so a failure never breaks the provider build.
+   */
+  private findWipPacts(
+    provider: Pacticipant,
+    publications: PublicationRow[],
+    since: string,
+    providerVersionBranch: string | undefined,
+    exclude: Set<number>,
+  ): SelectedPact[] {
+    // Publications are newest first, so the first row seen for a branch or
+    // tag is its latest.
+    const latestPerRef = new Map<string, { row: PublicationRow; ref: string }>();
+    for (const row of publications) {
+      if (row.pact.createdAt < since) continue;
+      const refs: Array<[string, string]> = [];
+      for (const branch of row.branches) {
+        refs.push([`branch:${branch}`, `from branch '${branch}'`]);
+      }
+      for (const tag of row.tags) {
+        refs.push([`tag:${tag}`, `tagged with '${tag}'`]);
+      }
+      for (const [key, ref] of refs) {
+        const groupKey = `${row.consumer.id}|${key}`;
+        if (!latestPerRef.has(groupKey)) latestPerRef.set(groupKey, { row, ref });
+      }
     }
 
-    return Array.from(matchedPacts.values());
+    const wip = new Map<number, SelectedPact>();
+    for (const { row, ref } of latestPerRef.values()) {
+      if (exclude.has(row.pact.pactVersionId)) continue;
+      if (
+        this.hasSuccessfulVerification(
+          row.pact.pactVersionId,
+          provider.id,
+          providerVersionBranch ? [providerVersionBranch] : [],
+        )
+      ) {
+        continue;
+      }
+      const notice = `it is a 'work in progress' pact (ie. it is the pact for the latest version of ${row.consumer.name} ${ref} and is still in pending state). Read more at https://docs.pact.io/go/wip`;
+      const existing = wip.get(row.pact.pactVersionId);
+      if (existing) {
+        existing.notices.push(notice);
+      } else {
+        wip.set(row.pact.pactVersionId, {
+          pact: row.pact,
+          consumer: row.consumer,
+          provider,
+          version: row.version,
+          versions: [row.version],
+          notices: [notice],
+          pending: true,
+          wip: true,
+        });
+      }
+    }
+    return Array.from(wip.values());
   }
 
   // ============ Webhook Operations ============
@@ -894,6 +2643,8 @@ export class PactBrokerDO extends DurableObject<Env> {
     body?: string | null;
     consumer?: string | null;
     provider?: string | null;
+    consumerLabel?: string | null;
+    providerLabel?: string | null;
     enabled?: boolean;
     description?: string | null;
   }): Promise<Webhook> {
@@ -909,6 +2660,8 @@ export class PactBrokerDO extends DurableObject<Env> {
       .values({
         consumerId,
         providerId,
+        consumerLabel: input.consumerLabel ?? null,
+        providerLabel: input.providerLabel ?? null,
         events: input.events.join(","),
         url: input.url,
         method: input.method ?? "POST",
@@ -931,6 +2684,8 @@ export class PactBrokerDO extends DurableObject<Env> {
       body: string | null;
       consumer: string | null;
       provider: string | null;
+      consumerLabel: string | null;
+      providerLabel: string | null;
       enabled: boolean;
       description: string | null;
     }>,
@@ -956,6 +2711,8 @@ export class PactBrokerDO extends DurableObject<Env> {
       .set({
         consumerId,
         providerId,
+        ...(input.consumerLabel !== undefined && { consumerLabel: input.consumerLabel }),
+        ...(input.providerLabel !== undefined && { providerLabel: input.providerLabel }),
         ...(input.events !== undefined && { events: input.events.join(",") }),
         ...(input.url !== undefined && { url: input.url }),
         ...(input.method !== undefined && { method: input.method }),
@@ -1041,7 +2798,7 @@ export class PactBrokerDO extends DurableObject<Env> {
       consumer: Pacticipant;
       provider: Pacticipant;
       consumerVersion?: Version;
-      pact?: Pact;
+      pact?: PactWithContent;
       verification?: Verification;
       providerVersion?: Version;
     },
@@ -1154,13 +2911,15 @@ export class PactBrokerDO extends DurableObject<Env> {
       if (!eventList.includes(event)) return false;
       if (h.consumerId !== null && h.consumerId !== consumerId) return false;
       if (h.providerId !== null && h.providerId !== providerId) return false;
+      if (h.consumerLabel !== null && !this.hasLabel(consumerId, h.consumerLabel)) return false;
+      if (h.providerLabel !== null && !this.hasLabel(providerId, h.providerLabel)) return false;
       return true;
     });
   }
 
   // Dispatch without blocking the caller. Safe to ctx.waitUntil() from the outside.
   async dispatchContractPublished(pactId: number, triggeredBy: string): Promise<void> {
-    const pact = this.db.select().from(pacts).where(eq(pacts.id, pactId)).get();
+    const pact = this.selectPactWithContent().where(eq(pacts.id, pactId)).get();
     if (!pact) return;
     const version = this.db
       .select()
@@ -1202,19 +2961,23 @@ export class PactBrokerDO extends DurableObject<Env> {
       .where(eq(verifications.id, verificationId))
       .get();
     if (!verification) return;
-    const pact = this.db.select().from(pacts).where(eq(pacts.id, verification.pactId)).get();
-    if (!pact) return;
+    // Report the latest consumer version that published the verified content.
+    const published = this.db
+      .select({ pact: pactWithContentColumns, consumerVersion: versions })
+      .from(pacts)
+      .innerJoin(pactVersions, eq(pacts.pactVersionId, pactVersions.id))
+      .innerJoin(versions, eq(pacts.consumerVersionId, versions.id))
+      .where(eq(pacts.pactVersionId, verification.pactVersionId))
+      .orderBy(desc(versions.createdAt), desc(versions.id))
+      .get();
+    if (!published) return;
+    const { pact, consumerVersion } = published;
     const providerVersion = this.db
       .select()
       .from(versions)
       .where(eq(versions.id, verification.providerVersionId))
       .get();
-    const consumerVersion = this.db
-      .select()
-      .from(versions)
-      .where(eq(versions.id, pact.consumerVersionId))
-      .get();
-    if (!providerVersion || !consumerVersion) return;
+    if (!providerVersion) return;
     const consumer = this.db
       .select()
       .from(pacticipants)
@@ -1270,6 +3033,367 @@ export class PactBrokerDO extends DurableObject<Env> {
 
   // ============ Utilities ============
 
+  // Synchronous find-or-create helpers. Kept sync so they can run inside
+  // ctx.storage.transactionSync() for multi-row writes.
+
+  private findOrCreatePacticipant(name: string): Pacticipant {
+    const existing = this.db.select().from(pacticipants).where(eq(pacticipants.name, name)).get();
+    if (existing) return existing;
+    return this.db.insert(pacticipants).values({ name }).returning().get();
+  }
+
+  private findOrCreateVersion(
+    pacticipantId: number,
+    versionNumber: string,
+    branch?: string,
+    buildUrl?: string,
+  ): { version: Version; created: boolean } {
+    const existing = this.db
+      .select()
+      .from(versions)
+      .where(and(eq(versions.pacticipantId, pacticipantId), eq(versions.number, versionNumber)))
+      .get();
+    if (existing) {
+      if (!branch) return { version: existing, created: false };
+      this.addVersionToBranch(existing, branch);
+      // A version published on another branch keeps its first branch
+      const version = existing.branch
+        ? existing
+        : this.db
+            .update(versions)
+            .set({ branch })
+            .where(eq(versions.id, existing.id))
+            .returning()
+            .get();
+      return { version, created: false };
+    }
+
+    const version = this.db
+      .insert(versions)
+      .values({ pacticipantId, number: versionNumber, branch, buildUrl })
+      .returning()
+      .get();
+    if (branch) this.addVersionToBranch(version, branch);
+    return { version, created: true };
+  }
+
+  private updateVersion(version: Version, input: VersionUpdate): Version | { conflict: string } {
+    const branchChanged = input.branch !== undefined && input.branch !== version.branch;
+    if (branchChanged && version.branch !== null && this.hasPublications(version.id)) {
+      return {
+        conflict: `Version ${version.number} already has branch '${version.branch}' and pacts or verification results have been published for it, so its branch cannot be changed`,
+      };
+    }
+
+    const changes = {
+      ...(branchChanged && { branch: input.branch }),
+      ...(input.buildUrl !== undefined && { buildUrl: input.buildUrl }),
+      ...(input.metadata !== undefined && {
+        metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+      }),
+    };
+    if (Object.keys(changes).length === 0) return version;
+
+    return this.ctx.storage.transactionSync(() => {
+      if (branchChanged) {
+        if (version.branch) this.removeVersionFromBranch(version, version.branch);
+        if (input.branch) this.addVersionToBranch(version, input.branch);
+      }
+      return this.db
+        .update(versions)
+        .set(changes)
+        .where(eq(versions.id, version.id))
+        .returning()
+        .get();
+    });
+  }
+
+  // Whether pacts (as consumer) or verification results (as provider) have
+  // been published for the version.
+  private hasPublications(versionId: number): boolean {
+    const pact = this.db
+      .select({ id: pacts.id })
+      .from(pacts)
+      .where(eq(pacts.consumerVersionId, versionId))
+      .get();
+    if (pact) return true;
+    const verification = this.db
+      .select({ id: verifications.id })
+      .from(verifications)
+      .where(eq(verifications.providerVersionId, versionId))
+      .get();
+    return verification !== undefined;
+  }
+
+  private findOrCreateBranch(pacticipantId: number, name: string): Branch {
+    const existing = this.db
+      .select()
+      .from(branches)
+      .where(and(eq(branches.pacticipantId, pacticipantId), eq(branches.name, name)))
+      .get();
+    if (existing) return existing;
+    return this.db.insert(branches).values({ pacticipantId, name }).returning().get();
+  }
+
+  private addVersionToBranch(version: Version, branchName: string): void {
+    const branch = this.findOrCreateBranch(version.pacticipantId, branchName);
+    this.db
+      .insert(branchVersions)
+      .values({ branchId: branch.id, versionId: version.id })
+      .onConflictDoNothing()
+      .run();
+  }
+
+  private removeVersionFromBranch(version: Version, branchName: string): void {
+    const branch = this.db
+      .select()
+      .from(branches)
+      .where(and(eq(branches.pacticipantId, version.pacticipantId), eq(branches.name, branchName)))
+      .get();
+    if (!branch) return;
+    this.db
+      .delete(branchVersions)
+      .where(and(eq(branchVersions.branchId, branch.id), eq(branchVersions.versionId, version.id)))
+      .run();
+  }
+
+  private findBranchVersion(
+    pacticipantId: number,
+    branchName: string,
+    versionNumber: string,
+  ): BranchVersion | undefined {
+    return this.db
+      .select({ branchVersion: branchVersions })
+      .from(branchVersions)
+      .innerJoin(branches, eq(branchVersions.branchId, branches.id))
+      .innerJoin(versions, eq(branchVersions.versionId, versions.id))
+      .where(
+        and(
+          eq(branches.pacticipantId, pacticipantId),
+          eq(branches.name, branchName),
+          eq(versions.number, versionNumber),
+        ),
+      )
+      .get()?.branchVersion;
+  }
+
+  private branchNamesOf(versionId: number): string[] {
+    return this.db
+      .select({ name: branches.name })
+      .from(branchVersions)
+      .innerJoin(branches, eq(branchVersions.branchId, branches.id))
+      .where(eq(branchVersions.versionId, versionId))
+      .all()
+      .map((row) => row.name);
+  }
+
+  private versionIdsOnBranch(pacticipantId: number, branchName: string) {
+    return this.db
+      .select({ id: branchVersions.versionId })
+      .from(branchVersions)
+      .innerJoin(branches, eq(branchVersions.branchId, branches.id))
+      .where(and(eq(branches.pacticipantId, pacticipantId), eq(branches.name, branchName)));
+  }
+
+  private findOrCreateTag(versionId: number, tagName: string): Tag {
+    const existing = this.db
+      .select()
+      .from(tags)
+      .where(and(eq(tags.versionId, versionId), eq(tags.name, tagName)))
+      .get();
+    if (existing) return existing;
+    return this.db.insert(tags).values({ versionId, name: tagName }).returning().get();
+  }
+
+  private selectPactWithContent() {
+    return this.db
+      .select(pactWithContentColumns)
+      .from(pacts)
+      .innerJoin(pactVersions, eq(pacts.pactVersionId, pactVersions.id));
+  }
+
+  private findOrCreatePactVersion(
+    consumerId: number,
+    providerId: number,
+    contentStr: string,
+    contentSha: string,
+  ): PactVersion {
+    const existing = this.db
+      .select()
+      .from(pactVersions)
+      .where(eq(pactVersions.sha, contentSha))
+      .get();
+    if (existing) return existing;
+    return this.db
+      .insert(pactVersions)
+      .values({ consumerId, providerId, sha: contentSha, content: contentStr })
+      .returning()
+      .get();
+  }
+
+  private upsertPact(
+    consumerVersion: Version,
+    providerId: number,
+    contentStr: string,
+    contentSha: string,
+  ): { pact: PactWithContent; created: boolean; previousSha: string | null } {
+    const pactVersion = this.findOrCreatePactVersion(
+      consumerVersion.pacticipantId,
+      providerId,
+      contentStr,
+      contentSha,
+    );
+    const withContent = { content: pactVersion.content, contentSha: pactVersion.sha };
+
+    const existing = this.selectPactWithContent()
+      .where(and(eq(pacts.consumerVersionId, consumerVersion.id), eq(pacts.providerId, providerId)))
+      .get();
+
+    if (existing) {
+      // Repoint the publication if the content changed
+      if (existing.pactVersionId !== pactVersion.id) {
+        this.db
+          .update(pacts)
+          .set({ pactVersionId: pactVersion.id })
+          .where(eq(pacts.id, existing.id))
+          .run();
+
+        return {
+          pact: { ...existing, pactVersionId: pactVersion.id, ...withContent },
+          created: false,
+          previousSha: existing.contentSha,
+        };
+      }
+      return { pact: existing, created: false, previousSha: null };
+    }
+
+    const pact = this.db
+      .insert(pacts)
+      .values({ consumerVersionId: consumerVersion.id, providerId, pactVersionId: pactVersion.id })
+      .returning()
+      .get();
+
+    return { pact: { ...pact, ...withContent }, created: true, previousSha: null };
+  }
+
+  // Whether the provider has verified this pact version successfully, on one
+  // of the given branches if there are any.
+  private hasSuccessfulVerification(
+    pactVersionId: number,
+    providerId: number,
+    branchNames: string[] = [],
+  ): boolean {
+    const conditions = [
+      eq(verifications.pactVersionId, pactVersionId),
+      eq(verifications.success, true),
+      eq(versions.pacticipantId, providerId),
+    ];
+    if (branchNames.length > 0) {
+      conditions.push(
+        or(
+          ...branchNames.map((b) => inArray(versions.id, this.versionIdsOnBranch(providerId, b))),
+        )!,
+      );
+    }
+
+    const found = this.db
+      .select({ id: verifications.id })
+      .from(verifications)
+      .innerJoin(versions, eq(verifications.providerVersionId, versions.id))
+      .where(and(...conditions))
+      .get();
+    return found !== undefined;
+  }
+
+  // A consumer version's pact may only change content when the operator has
+  // opted in via ALLOW_PACT_OVERWRITE; otherwise verifications recorded
+  // against the old content would silently apply to the new one.
+  private findPactConflict(
+    consumerName: string,
+    versionNumber: string,
+    providerName: string,
+    content: PactContent,
+    contentSha: string,
+  ): PactConflict | null {
+    if (isPactOverwriteAllowed(this.env.ALLOW_PACT_OVERWRITE, consumerName)) return null;
+
+    const consumer = this.db
+      .select()
+      .from(pacticipants)
+      .where(eq(pacticipants.name, consumerName))
+      .get();
+    const provider = this.db
+      .select()
+      .from(pacticipants)
+      .where(eq(pacticipants.name, providerName))
+      .get();
+    if (!consumer || !provider) return null;
+
+    const existing = this.db
+      .select({ pact: pactWithContentColumns })
+      .from(pacts)
+      .innerJoin(pactVersions, eq(pacts.pactVersionId, pactVersions.id))
+      .innerJoin(versions, eq(pacts.consumerVersionId, versions.id))
+      .where(
+        and(
+          eq(versions.pacticipantId, consumer.id),
+          eq(versions.number, versionNumber),
+          eq(pacts.providerId, provider.id),
+        ),
+      )
+      .get();
+    if (!existing || existing.pact.contentSha === contentSha) return null;
+
+    let previous: PactContent;
+    try {
+      previous = JSON.parse(existing.pact.content) as PactContent;
+    } catch {
+      previous = {
+        consumer: { name: consumerName },
+        provider: { name: providerName },
+        interactions: [],
+      };
+    }
+
+    return {
+      consumer: consumerName,
+      provider: providerName,
+      consumerVersion: versionNumber,
+      existingSha: existing.pact.contentSha,
+      newSha: contentSha,
+      diff: summarisePactDiff(previous, content),
+    };
+  }
+
+  private logPactOverwrite(
+    consumerName: string,
+    versionNumber: string,
+    providerName: string,
+    previousSha: string,
+    contentSha: string,
+  ): void {
+    console.warn(
+      JSON.stringify({
+        ts: new Date().toISOString(),
+        level: "warn",
+        msg: "pact content overwritten",
+        consumer: consumerName,
+        consumerVersion: versionNumber,
+        provider: providerName,
+        previousSha,
+        contentSha,
+      }),
+    );
+  }
+
+  // Content SHA over the canonical form, so key order and library-version
+  // metadata don't make an unchanged contract look new.
+  private async pactContentSha(content: PactContent): Promise<string> {
+    return this.sha256(
+      canonicalisePact(content, ignoredMetadataPaths(this.env.PACT_SHA_IGNORED_METADATA)),
+    );
+  }
+
   private async sha256(content: string): Promise<string> {
     const encoder = new TextEncoder();
     const data = encoder.encode(content);
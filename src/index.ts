@@ -6,11 +6,13 @@ import { rateLimitMiddleware } from "./middleware/rate-limit";
 import { indexRoutes } from "./routes/index";
 import { pacticipantRoutes } from "./routes/pacticipants";
 import { pactRoutes } from "./routes/pacts";
+import { contractRoutes } from "./routes/contracts";
 import { verificationRoutes } from "./routes/verifications";
 import { matrixRoutes } from "./routes/matrix";
 import { environmentRoutes } from "./routes/environments";
 import { webhookRoutes } from "./routes/webhooks";
 import { badgeRoutes } from "./routes/badge";
+import { adminRoutes } from "./routes/admin";
 import { HAL_BROWSER_HTML } from "./ui/index";
 
 // Re-export the Durable Object class
@@ -180,10 +182,12 @@ app.get("/ui", (c) => c.html(HAL_BROWSER_HTML));
 app.route("/", indexRoutes);
 app.route("/pacticipants", pacticipantRoutes);
 app.route("/pacts", pactRoutes);
+app.route("/contracts", contractRoutes);
 app.route("/pacts", verificationRoutes);
 app.route("/pacts", badgeRoutes);
 app.route("/environments", environmentRoutes);
 app.route("/webhooks", webhookRoutes);
+app.route("/admin", adminRoutes);
 app.route("/", matrixRoutes);
 
 // 404 handler
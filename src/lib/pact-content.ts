@@ -0,0 +1,230 @@
+import type { PactConflict, PactContent, PactDiffSummary, PactInteractionType } from "../types";
+
+// Upper bound on interactions per pact. Real-world pacts sit well below
+// this; the cap bounds the work a single (possibly leaked-token) publish
+// can make the Durable Object do.
+export const MAX_INTERACTIONS = 1000;
+
+const INTERACTION_TYPES: readonly PactInteractionType[] = [
+  "Synchronous/HTTP",
+  "Asynchronous/Messages",
+  "Synchronous/Messages",
+];
+
+// Every interaction in the pact, HTTP and message alike.
+export function pactInteractions(content: PactContent): unknown[] {
+  return [
+    ...(Array.isArray(content.interactions) ? content.interactions : []),
+    ...(Array.isArray(content.messages) ? content.messages : []),
+  ];
+}
+
+/**
+ * Structural check shared by every publish path (`PUT /pacts/...` and
+ * `POST /contracts/publish`). Only the envelope is checked — interaction
+ * bodies are stored as-is, apart from a v4 `type`, which must be one the
+ * specification defines.
+ */
+export function validatePactContent(
+  body: unknown,
+): { valid: true; content: PactContent } | { valid: false; message: string } {
+  const pact = body as Partial<PactContent> | null;
+
+  if (
+    !pact ||
+    typeof pact !== "object" ||
+    !pact.consumer ||
+    !pact.provider ||
+    (pact.interactions === undefined && pact.messages === undefined)
+  ) {
+    return {
+      valid: false,
+      message: "Pact must contain consumer, provider, and interactions or messages",
+    };
+  }
+
+  for (const field of ["interactions", "messages"] as const) {
+    const list = pact[field];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) {
+      return { valid: false, message: `${field} must be an array` };
+    }
+    for (const [index, interaction] of list.entries()) {
+      const type = (interaction as { type?: unknown } | null)?.type;
+      if (type !== undefined && !INTERACTION_TYPES.includes(type as PactInteractionType)) {
+        return {
+          valid: false,
+          message: `${field}.${index}.type must be one of ${INTERACTION_TYPES.join(", ")}`,
+        };
+      }
+    }
+  }
+
+  const count = pactInteractions(pact as PactContent).length;
+  if (count > MAX_INTERACTIONS) {
+    return {
+      valid: false,
+      message: `Pact contains ${count} interactions; the maximum is ${MAX_INTERACTIONS}`,
+    };
+  }
+
+  return { valid: true, content: pact as PactContent };
+}
+
+/**
+ * The Pact Specification version a pact was written against. Taken from
+ * `metadata.pactSpecification.version` (or the older `pact-specification`
+ * key) when present; otherwise inferred: a v4 interaction `type` means
+ * 4.0.0, a `messages` list means 3.0.0, and anything else is 2.0.0.
+ */
+export function detectSpecificationVersion(content: PactContent): string {
+  const metadata = (content.metadata ?? {}) as Record<string, unknown>;
+  for (const key of ["pactSpecification", "pact-specification"]) {
+    const version = (metadata[key] as { version?: unknown } | undefined)?.version;
+    if (typeof version === "string" && version.length > 0) return version;
+  }
+
+  const typed = pactInteractions(content).some(
+    (i) => (i as { type?: unknown } | null)?.type !== undefined,
+  );
+  if (typed) return "4.0.0";
+  if (Array.isArray(content.messages)) return "3.0.0";
+  return "2.0.0";
+}
+
+// Metadata written by Pact implementations that changes with the library
+// version rather than the contract. Always excluded from the content SHA;
+// PACT_SHA_IGNORED_METADATA adds to this list.
+export const DEFAULT_IGNORED_METADATA_PATHS = [
+  "pactRust",
+  "pact-js",
+  "pact-jvm",
+  "pact-go",
+  "pact-python",
+  "pactNet",
+];
+
+/**
+ * Parse `PACT_SHA_IGNORED_METADATA` (comma-separated dot paths relative to
+ * the pact's `metadata` object) and merge it with the built-in defaults.
+ */
+export function ignoredMetadataPaths(setting: string | undefined): string[] {
+  const extra = (setting ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+  return [...new Set([...DEFAULT_IGNORED_METADATA_PATHS, ...extra])];
+}
+
+function deleteMetadataPath(metadata: Record<string, unknown>, path: string): void {
+  const parts = path.split(".");
+  const last = parts.pop();
+  if (last === undefined) return;
+  let cursor: unknown = metadata;
+  for (const part of parts) {
+    if (!cursor || typeof cursor !== "object") return;
+    cursor = (cursor as Record<string, unknown>)[part];
+  }
+  if (cursor && typeof cursor === "object") {
+    delete (cursor as Record<string, unknown>)[last];
+  }
+}
+
+// Numbers need no special handling: the body has already been through
+// JSON.parse, so `1.0`, `1e0` and `1` are all the number 1 and serialise
+// back identically.
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => canonicalJson(v)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Serialise a pact so that semantically identical documents produce the
+ * same string: object keys sorted, numbers normalised, and volatile
+ * metadata (library versions) removed. The result is only hashed — the
+ * stored content stays exactly as published.
+ */
+export function canonicalisePact(content: PactContent, ignoredPaths: string[]): string {
+  const copy = JSON.parse(JSON.stringify(content)) as PactContent;
+  if (copy.metadata && typeof copy.metadata === "object") {
+    for (const path of ignoredPaths) deleteMetadataPath(copy.metadata, path);
+  }
+  return canonicalJson(copy);
+}
+
+/**
+ * Whether a consumer may republish a version with different pact content.
+ * `setting` is the `ALLOW_PACT_OVERWRITE` env var: "true" allows it for
+ * every consumer, a comma-separated list allows it for the named consumers
+ * only, and anything else (including unset) rejects the change.
+ */
+export function isPactOverwriteAllowed(setting: string | undefined, consumerName: string): boolean {
+  const entries = (setting ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+  if (entries.length === 1 && entries[0] === "true") return true;
+  return entries.includes(consumerName);
+}
+
+// Identify an interaction across two versions of a pact by its description
+// and provider state(s), which is how Pact itself tells interactions apart.
+function interactionKey(interaction: unknown): string {
+  const i = (interaction ?? {}) as {
+    description?: unknown;
+    providerState?: unknown;
+    providerStates?: Array<{ name?: unknown }>;
+  };
+  const description = typeof i.description === "string" ? i.description : JSON.stringify(i);
+  const states = Array.isArray(i.providerStates)
+    ? i.providerStates.map((s) => String(s?.name))
+    : typeof i.providerState === "string"
+      ? [i.providerState]
+      : [];
+  return states.length > 0 ? `${description} given ${states.join(", ")}` : description;
+}
+
+/**
+ * Summarise what changed between two versions of the same pact, keyed by
+ * interaction. Returned in the 409 body when a republish is rejected so the
+ * consumer team can see why without fetching both documents.
+ */
+export function summarisePactDiff(before: PactContent, after: PactContent): PactDiffSummary {
+  const index = (content: PactContent) =>
+    new Map(pactInteractions(content).map((i) => [interactionKey(i), JSON.stringify(i)]));
+  const previous = index(before);
+  const next = index(after);
+
+  return {
+    interactionsAdded: [...next.keys()].filter((k) => !previous.has(k)),
+    interactionsRemoved: [...previous.keys()].filter((k) => !next.has(k)),
+    interactionsChanged: [...next.keys()].filter(
+      (k) => previous.has(k) && previous.get(k) !== next.get(k),
+    ),
+    metadataChanged: JSON.stringify(before.metadata ?? {}) !== JSON.stringify(after.metadata ?? {}),
+  };
+}
+
+// 409 body for a rejected republish. Shared by both publish routes.
+export function pactConflictBody(conflicts: PactConflict[]): {
+  error: string;
+  message: string;
+  conflicts: PactConflict[];
+} {
+  const described = conflicts
+    .map((c) => `${c.consumer} version ${c.consumerVersion} and provider ${c.provider}`)
+    .join("; ");
+  return {
+    error: "Conflict",
+    message: `A pact with different content has already been published for ${described}. Publish under a new consumer version instead.`,
+    conflicts,
+  };
+}
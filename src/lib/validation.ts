@@ -32,6 +32,16 @@ export const tagSchema = z
     "Tag can only contain letters, numbers, dots, hyphens, and underscores",
   );
 
+// Pacticipant labels: same character set as tags
+export const labelSchema = z
+  .string()
+  .min(1, "Label cannot be empty")
+  .max(255, "Label exceeds 255 characters")
+  .regex(
+    /^[a-zA-Z0-9._-]+$/,
+    "Label can only contain letters, numbers, dots, hyphens, and underscores",
+  );
+
 // Branch names: similar to tags
 export const branchSchema = z
   .string()
@@ -62,7 +72,11 @@ export function parseId(idString: string): number {
   return parseInt(idString, 10);
 }
 
-// Environment names
+// Environment UUIDs
+export const uuidSchema = z.string().uuid("Must be a valid UUID");
+
+// Environment names. UUID-shaped names are refused so that a name can never
+// be mistaken for an environment's UUID.
 export const environmentNameSchema = z
   .string()
   .min(1, "Environment name cannot be empty")
@@ -70,6 +84,22 @@ export const environmentNameSchema = z
   .regex(
     /^[a-zA-Z0-9_-]+$/,
     "Environment name can only contain letters, numbers, hyphens, and underscores",
+  )
+  .refine((name) => !uuidSchema.safeParse(name).success, "Environment name cannot be a UUID");
+
+// Environment route parameters: a UUID, or a name for older clients
+export const environmentIdSchema = z.union([uuidSchema, environmentNameSchema], {
+  errorMap: () => ({ message: "Must be an environment UUID or a valid environment name" }),
+});
+
+// Application instances (deployment targets within an environment, e.g. a region)
+export const applicationInstanceSchema = z
+  .string()
+  .min(1, "Application instance cannot be empty")
+  .max(100, "Application instance exceeds 100 characters")
+  .regex(
+    /^[a-zA-Z0-9._-]+$/,
+    "Application instance can only contain letters, numbers, dots, hyphens, and underscores",
   );
 
 /**
@@ -0,0 +1,35 @@
+import { Hono } from "hono";
+import type { Env } from "../types";
+import { HalBuilder, getBaseUrl } from "../services/hal";
+
+const app = new Hono<{ Bindings: Env }>();
+
+// Helper to get DO stub
+function getBroker(env: Env) {
+  const id = env.PACT_BROKER.idFromName("pact-broker");
+  return env.PACT_BROKER.get(id);
+}
+
+// Recompute every stored pact's content SHA with the current canonical
+// hashing rules. Safe to re-run; a second run updates nothing.
+app.post("/recompute-content-shas", async (c) => {
+  const broker = getBroker(c.env);
+  const result = await broker.recomputeContentShas();
+
+  console.log(
+    JSON.stringify({
+      ts: new Date().toISOString(),
+      level: "info",
+      msg: "content SHAs recomputed",
+      ...result,
+    }),
+  );
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  return c.json({
+    ...result,
+    _links: { self: hal.link("/admin/recompute-content-shas") },
+  });
+});
+
+export { app as adminRoutes };
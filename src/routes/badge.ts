@@ -65,7 +65,7 @@ app.get("/provider/:provider/consumer/:consumer/badge", async (c) => {
   try {
     const latest = await broker.getLatestPact(providerResult.value, consumerResult.value, tag);
     if (latest) {
-      const verifications = await broker.getVerificationsForPact(latest.pact.id);
+      const verifications = await broker.getVerificationsForPactVersion(latest.pact.pactVersionId);
       if (verifications.length > 0) {
         status = verifications[0]!.success ? "verified" : "failed";
       }
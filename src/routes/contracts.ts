@@ -0,0 +1,197 @@
+import { Hono } from "hono";
+import { z } from "zod";
+import type {
+  Env,
+  Notice,
+  PactContent,
+  PublishContractsRequest,
+  PublishContractsResponse,
+} from "../types";
+import { HalBuilder, getBaseUrl } from "../services/hal";
+import { nameSchema, versionSchema, branchSchema, tagSchema } from "../lib/validation";
+import { validatePactContent, pactConflictBody } from "../lib/pact-content";
+
+const app = new Hono<{ Bindings: Env }>();
+
+// Helper to get DO stub
+function getBroker(env: Env) {
+  const id = env.PACT_BROKER.idFromName("pact-broker");
+  return env.PACT_BROKER.get(id);
+}
+
+const contractSchema = z.object({
+  consumerName: nameSchema,
+  providerName: nameSchema,
+  specification: z.literal("pact"),
+  contentType: z
+    .string()
+    .refine((t) => t.includes("application/json"), "contentType must be application/json"),
+  content: z.string().min(1, "content cannot be empty"),
+  // Merging interactions into an existing pact is not supported; only the
+  // default overwrite behaviour is accepted.
+  onConflict: z.literal("overwrite").optional(),
+});
+
+const publishContractsSchema = z.object({
+  pacticipantName: nameSchema,
+  pacticipantVersionNumber: versionSchema,
+  branch: branchSchema.optional(),
+  tags: z.array(tagSchema).optional(),
+  buildUrl: z.string().url("buildUrl must be a valid URL").optional(),
+  contracts: z.array(contractSchema).min(1, "contracts must contain at least one contract"),
+});
+
+function decodeBase64Json(encoded: string): unknown {
+  const bytes = Uint8Array.from(atob(encoded), (ch) => ch.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(bytes));
+}
+
+// Publish a consumer version's contracts in one request (pact-broker-client >= 1.56)
+app.post("/publish", async (c) => {
+  let raw: unknown;
+  try {
+    raw = await c.req.json();
+  } catch {
+    return c.json({ error: "Bad Request", message: "Invalid JSON body" }, 400);
+  }
+
+  const parsed = publishContractsSchema.safeParse(raw);
+  if (!parsed.success) {
+    const first = parsed.error.errors[0];
+    return c.json(
+      {
+        error: "Bad Request",
+        message: first ? `${first.path.join(".")}: ${first.message}` : "Invalid request",
+      },
+      400,
+    );
+  }
+  const body: PublishContractsRequest = parsed.data;
+
+  const contracts: Array<{ providerName: string; content: PactContent }> = [];
+  for (const [index, contract] of body.contracts.entries()) {
+    if (contract.consumerName !== body.pacticipantName) {
+      return c.json(
+        {
+          error: "Bad Request",
+          message: `contracts.${index}.consumerName: must match pacticipantName '${body.pacticipantName}'`,
+        },
+        400,
+      );
+    }
+
+    let decoded: unknown;
+    try {
+      decoded = decodeBase64Json(contract.content);
+    } catch {
+      return c.json(
+        {
+          error: "Bad Request",
+          message: `contracts.${index}.content: must be base64-encoded JSON`,
+        },
+        400,
+      );
+    }
+
+    const pactResult = validatePactContent(decoded);
+    if (!pactResult.valid) {
+      return c.json(
+        { error: "Bad Request", message: `contracts.${index}.content: ${pactResult.message}` },
+        400,
+      );
+    }
+
+    const { consumer, provider } = pactResult.content;
+    if (consumer.name !== contract.consumerName || provider.name !== contract.providerName) {
+      return c.json(
+        {
+          error: "Bad Request",
+          message: `contracts.${index}.content: consumer and provider names must match consumerName and providerName`,
+        },
+        400,
+      );
+    }
+
+    contracts.push({ providerName: contract.providerName, content: pactResult.content });
+  }
+
+  const broker = getBroker(c.env);
+  const result = await broker.publishContracts({
+    pacticipantName: body.pacticipantName,
+    versionNumber: body.pacticipantVersionNumber,
+    branch: body.branch,
+    buildUrl: body.buildUrl,
+    tags: body.tags ?? [],
+    contracts,
+  });
+  if ("conflicts" in result) {
+    return c.json(pactConflictBody(result.conflicts), 409);
+  }
+
+  // Fire any matching webhooks without blocking the response.
+  for (const { pact } of result.pacts) {
+    c.executionCtx.waitUntil(broker.dispatchContractPublished(pact.id, `pact:${pact.id}`));
+  }
+
+  const consumerName = result.pacticipant.name;
+  const versionNumber = result.version.number;
+  const notices: Notice[] = [];
+
+  const versionDetails: string[] = [];
+  if (result.version.branch) versionDetails.push(`branch ${result.version.branch}`);
+  if (result.tags.length > 0) {
+    versionDetails.push(`tags ${result.tags.map((t) => t.name).join(", ")}`);
+  }
+  const suffix = versionDetails.length > 0 ? ` with ${versionDetails.join(" and ")}` : "";
+  notices.push(
+    result.versionCreated
+      ? { type: "success", text: `Created ${consumerName} version ${versionNumber}${suffix}` }
+      : { type: "info", text: `Updated ${consumerName} version ${versionNumber}${suffix}` },
+  );
+
+  for (const { provider, created, previousSha } of result.pacts) {
+    const pactName = `${consumerName} version ${versionNumber} and provider ${provider.name}`;
+    if (created) {
+      notices.push({ type: "success", text: `Pact successfully published for ${pactName}.` });
+    } else if (previousSha) {
+      notices.push({
+        type: "warning",
+        text: `Pact published for ${pactName} with changed content.`,
+      });
+    } else {
+      notices.push({
+        type: "info",
+        text: `Pact with identical content already published for ${pactName}.`,
+      });
+    }
+  }
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  const response: PublishContractsResponse = {
+    notices,
+    _embedded: {
+      pacticipant: {
+        name: consumerName,
+        createdAt: result.pacticipant.createdAt,
+        _links: hal.pacticipant(consumerName),
+      },
+      version: {
+        number: versionNumber,
+        branch: result.version.branch,
+        buildUrl: result.version.buildUrl,
+        createdAt: result.version.createdAt,
+        _links: hal.version(consumerName, versionNumber),
+      },
+    },
+    _links: hal.publishContracts(
+      consumerName,
+      versionNumber,
+      result.tags.map((t) => t.name),
+      result.pacts.map((p) => p.provider.name),
+    ),
+  };
+
+  return c.json(response, 200, { "Content-Type": "application/hal+json" });
+});
+
+export { app as contractRoutes };
@@ -1,7 +1,23 @@
 import { Hono } from "hono";
-import type { Env, EnvironmentResponse, EnvironmentRequest } from "../types";
+import { z } from "zod";
+import type {
+  Env,
+  EnvironmentContact,
+  EnvironmentResponse,
+  EnvironmentRequest,
+  EnvironmentDeploymentResponse,
+  CurrentlyDeployedVersionResponse,
+  CurrentlySupportedVersionResponse,
+} from "../types";
 import { HalBuilder, getBaseUrl } from "../services/hal";
-import { environmentNameSchema, validateParam } from "../lib/validation";
+import {
+  environmentNameSchema,
+  environmentIdSchema,
+  nameSchema,
+  uuidSchema,
+  validateParam,
+  validateOptionalQuery,
+} from "../lib/validation";
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -11,6 +27,62 @@ function getBroker(env: Env) {
   return env.PACT_BROKER.get(id);
 }
 
+const contactSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Contact name cannot be empty")
+    .max(255, "Contact name exceeds 255 characters"),
+  details: z
+    .object({ emailAddress: z.string().email("emailAddress must be a valid email").optional() })
+    .passthrough()
+    .optional(),
+});
+
+const environmentSchema = z.object({
+  name: environmentNameSchema.optional(),
+  displayName: z.string().max(255, "displayName exceeds 255 characters").nullable().optional(),
+  production: z.boolean().optional(),
+  contacts: z.array(contactSchema).nullable().optional(),
+});
+
+function parseContacts(json: string | null): EnvironmentContact[] {
+  if (!json) return [];
+  try {
+    return JSON.parse(json) as EnvironmentContact[];
+  } catch {
+    return [];
+  }
+}
+
+function serialiseEnvironment(
+  hal: HalBuilder,
+  env: {
+    uuid: string;
+    name: string;
+    displayName: string | null;
+    production: boolean | null;
+    contacts: string | null;
+    createdAt: string;
+  },
+): EnvironmentResponse {
+  return {
+    uuid: env.uuid,
+    name: env.name,
+    displayName: env.displayName,
+    production: env.production ?? false,
+    contacts: parseContacts(env.contacts),
+    createdAt: env.createdAt,
+    _links: hal.environment(env.uuid),
+  };
+}
+
+// Environments are addressed by UUID, or by name for older clients.
+async function findEnvironment(broker: ReturnType<typeof getBroker>, id: string) {
+  return uuidSchema.safeParse(id).success
+    ? broker.getEnvironmentByUuid(id)
+    : broker.getEnvironment(id);
+}
+
 // List all environments
 app.get("/", async (c) => {
   const broker = getBroker(c.env);
@@ -22,70 +94,252 @@ app.get("/", async (c) => {
       self: hal.link("/environments"),
     },
     _embedded: {
-      environments: envs.map((e) => ({
-        name: e.name,
-        displayName: e.displayName,
-        production: e.production,
-        createdAt: e.createdAt,
-        _links: hal.environment(e.name),
-      })),
+      environments: envs.map((e) => serialiseEnvironment(hal, e)),
     },
   };
 
   return c.json(response);
 });
 
-// Get a specific environment
+// Get a specific environment, by UUID or name
 app.get("/:name", async (c) => {
-  const nameResult = validateParam(c, environmentNameSchema, c.req.param("name"), "name");
+  const nameResult = validateParam(c, environmentIdSchema, c.req.param("name"), "name");
   if (!nameResult.valid) return nameResult.response;
   const name = nameResult.value;
 
   const broker = getBroker(c.env);
-  const env = await broker.getEnvironment(name);
+  const env = await findEnvironment(broker, name);
 
   if (!env) {
     return c.json({ error: "Not Found", message: "Environment not found" }, 404);
   }
 
   const hal = new HalBuilder(getBaseUrl(c.req.raw));
-  const response: EnvironmentResponse = {
-    name: env.name,
-    displayName: env.displayName,
-    production: env.production ?? false,
-    createdAt: env.createdAt,
-    _links: hal.environment(env.name),
-  };
-
-  return c.json(response);
+  return c.json(serialiseEnvironment(hal, env));
 });
 
-// Create or update an environment
+// Replace an environment by UUID, or create or partially update one by name
 app.put("/:name", async (c) => {
-  const nameResult = validateParam(c, environmentNameSchema, c.req.param("name"), "name");
+  const nameResult = validateParam(c, environmentIdSchema, c.req.param("name"), "name");
   if (!nameResult.valid) return nameResult.response;
   const name = nameResult.value;
 
-  let body: EnvironmentRequest = {};
+  let raw: unknown = {};
   try {
-    body = await c.req.json();
+    raw = await c.req.json();
   } catch {
     // Empty body is valid
   }
 
+  const parsed = environmentSchema.safeParse(raw);
+  if (!parsed.success) {
+    const first = parsed.error.errors[0];
+    return c.json(
+      {
+        error: "Bad Request",
+        message: first ? `${first.path.join(".")}: ${first.message}` : "Invalid environment",
+      },
+      400,
+    );
+  }
+  const body: EnvironmentRequest = parsed.data;
+
+  const broker = getBroker(c.env);
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+
+  if (uuidSchema.safeParse(name).success) {
+    const result = await broker.putEnvironment(name, body);
+    if (!result) {
+      return c.json({ error: "Not Found", message: "Environment not found" }, 404);
+    }
+    if ("conflict" in result) {
+      return c.json({ error: "Conflict", message: result.conflict }, 409);
+    }
+    return c.json(serialiseEnvironment(hal, result));
+  }
+
+  const env = await broker.getOrCreateEnvironment(
+    name,
+    body.displayName,
+    body.production,
+    body.contacts,
+  );
+
+  return c.json(serialiseEnvironment(hal, env), 201);
+});
+
+// Delete an environment by UUID or name; its deployments are archived
+app.delete("/:name", async (c) => {
+  const nameResult = validateParam(c, environmentIdSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+
+  const broker = getBroker(c.env);
+  const env = await findEnvironment(broker, nameResult.value);
+
+  if (!env || !(await broker.deleteEnvironment(env.uuid))) {
+    return c.json({ error: "Not Found", message: "Environment not found" }, 404);
+  }
+
+  return c.body(null, 204);
+});
+
+// Deployment timeline for an environment, newest first
+app.get("/:name/deployments", async (c) => {
+  const nameResult = validateParam(c, environmentIdSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+
+  const pacticipantResult = validateOptionalQuery(
+    c,
+    nameSchema,
+    c.req.query("pacticipant"),
+    "pacticipant",
+  );
+  if (!pacticipantResult.valid) return pacticipantResult.response;
+
+  const broker = getBroker(c.env);
+  const env = await findEnvironment(broker, nameResult.value);
+  const deployments =
+    env && (await broker.getDeploymentsForEnvironment(env.name, pacticipantResult.value));
+
+  if (!env || !deployments) {
+    return c.json({ error: "Not Found", message: "Environment not found" }, 404);
+  }
+  const name = env.name;
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  const response = {
+    _links: {
+      self: hal.environment(env.uuid)["pb:deployments"],
+      "pb:environment": hal.environment(env.uuid).self,
+    },
+    _embedded: {
+      deployments: deployments.map(
+        ({ deployment, version, pacticipant }): EnvironmentDeploymentResponse => ({
+          pacticipant: pacticipant.name,
+          version: version.number,
+          environment: name,
+          applicationInstance: deployment.applicationInstance,
+          deployedAt: deployment.deployedAt,
+          undeployedAt: deployment.undeployedAt,
+          currentlyDeployed: deployment.undeployedAt === null,
+          _links: hal.deployment(
+            pacticipant.name,
+            version.number,
+            name,
+            deployment.applicationInstance,
+          ),
+        }),
+      ),
+    },
+  };
+
+  return c.json(response);
+});
+
+// Versions currently deployed to an environment
+app.get("/:name/deployed-versions/currently-deployed", async (c) => {
+  const nameResult = validateParam(c, environmentIdSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+
+  const pacticipantResult = validateOptionalQuery(
+    c,
+    nameSchema,
+    c.req.query("pacticipant"),
+    "pacticipant",
+  );
+  if (!pacticipantResult.valid) return pacticipantResult.response;
+
   const broker = getBroker(c.env);
-  const env = await broker.getOrCreateEnvironment(name, body.displayName, body.production);
+  const env = await findEnvironment(broker, nameResult.value);
+  const deployed =
+    env && (await broker.getCurrentlyDeployedVersions(env.name, pacticipantResult.value));
+
+  if (!env || !deployed) {
+    return c.json({ error: "Not Found", message: "Environment not found" }, 404);
+  }
+  const name = env.name;
 
   const hal = new HalBuilder(getBaseUrl(c.req.raw));
-  const response: EnvironmentResponse = {
-    name: env.name,
-    displayName: env.displayName,
-    production: env.production ?? false,
-    createdAt: env.createdAt,
-    _links: hal.environment(env.name),
+  const response = {
+    _links: {
+      self: hal.environment(env.uuid)["pb:currently-deployed-deployed-versions"],
+      "pb:environment": hal.environment(env.uuid).self,
+    },
+    _embedded: {
+      deployedVersions: deployed.map(
+        ({ deployment, version, pacticipant }): CurrentlyDeployedVersionResponse => ({
+          pacticipant: pacticipant.name,
+          version: version.number,
+          branch: version.branch,
+          buildUrl: version.buildUrl,
+          environment: name,
+          applicationInstance: deployment.applicationInstance,
+          deployedAt: deployment.deployedAt,
+          _links: {
+            ...hal.deployment(
+              pacticipant.name,
+              version.number,
+              name,
+              deployment.applicationInstance,
+            ),
+            "pb:pacticipant": hal.pacticipant(pacticipant.name).self,
+          },
+        }),
+      ),
+    },
+  };
+
+  return c.json(response);
+});
+
+// Released versions still supported in an environment
+app.get("/:name/released-versions/currently-supported", async (c) => {
+  const nameResult = validateParam(c, environmentIdSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+
+  const pacticipantResult = validateOptionalQuery(
+    c,
+    nameSchema,
+    c.req.query("pacticipant"),
+    "pacticipant",
+  );
+  if (!pacticipantResult.valid) return pacticipantResult.response;
+
+  const broker = getBroker(c.env);
+  const env = await findEnvironment(broker, nameResult.value);
+  const supported =
+    env && (await broker.getCurrentlySupportedVersions(env.name, pacticipantResult.value));
+
+  if (!env || !supported) {
+    return c.json({ error: "Not Found", message: "Environment not found" }, 404);
+  }
+  const name = env.name;
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  const response = {
+    _links: {
+      self: hal.environment(env.uuid)["pb:currently-supported-released-versions"],
+      "pb:environment": hal.environment(env.uuid).self,
+    },
+    _embedded: {
+      releasedVersions: supported.map(
+        ({ release, version, pacticipant }): CurrentlySupportedVersionResponse => ({
+          pacticipant: pacticipant.name,
+          version: version.number,
+          branch: version.branch,
+          buildUrl: version.buildUrl,
+          environment: name,
+          releasedAt: release.releasedAt,
+          _links: {
+            ...hal.release(pacticipant.name, version.number, name),
+            "pb:pacticipant": hal.pacticipant(pacticipant.name).self,
+          },
+        }),
+      ),
+    },
   };
 
-  return c.json(response, 201);
+  return c.json(response);
 });
 
 export { app as environmentRoutes };
@@ -1,16 +1,52 @@
-import { Hono } from "hono";
-import type { Env, MatrixResponse, CanIDeployResponse } from "../types";
+import { Hono, type Context } from "hono";
+import { z } from "zod";
+import type {
+  Env,
+  HonoEnv,
+  HalLinks,
+  MatrixResponse,
+  MatrixRow,
+  MatrixSelector,
+  CanIDeployResponse,
+  CanIDeployBatchResponse,
+  CanIDeployIgnore,
+  CanIDeployDecisionsResponse,
+  Notice,
+} from "../types";
 import { HalBuilder, getBaseUrl } from "../services/hal";
 import {
   nameSchema,
   versionSchema,
   tagSchema,
+  branchSchema,
+  labelSchema,
   environmentNameSchema,
   validateParam,
   validateOptionalQuery,
 } from "../lib/validation";
 
-const app = new Hono<{ Bindings: Env }>();
+const app = new Hono<HonoEnv>();
+
+const MAX_MATRIX_LIMIT = 1000;
+const MAX_BATCH_SIZE = 50;
+const MAX_CAN_I_DEPLOY_WAIT_SECONDS = 60;
+const DEFAULT_DECISIONS_PAGE_SIZE = 50;
+const MAX_DECISIONS_PAGE_SIZE = 200;
+
+const pageNumberSchema = z.coerce
+  .number()
+  .int("must be a whole number")
+  .min(1, "must be at least 1");
+const pageSizeSchema = pageNumberSchema.max(
+  MAX_DECISIONS_PAGE_SIZE,
+  `cannot exceed ${MAX_DECISIONS_PAGE_SIZE}`,
+);
+
+const waitSchema = z.coerce
+  .number()
+  .int("must be a whole number of seconds")
+  .min(1, "must be at least 1 second")
+  .max(MAX_CAN_I_DEPLOY_WAIT_SECONDS, `cannot exceed ${MAX_CAN_I_DEPLOY_WAIT_SECONDS} seconds`);
 
 // Helper to get DO stub
 function getBroker(env: Env) {
@@ -18,49 +54,216 @@ function getBroker(env: Env) {
   return env.PACT_BROKER.get(id);
 }
 
+const booleanQuerySchema = z
+  .enum(["true", "false"], { message: "must be true or false" })
+  .transform((v) => v === "true");
+
+const matrixSelectorSchema = z
+  .object({
+    pacticipant: nameSchema.optional(),
+    label: labelSchema.optional(),
+    version: versionSchema.optional(),
+    latest: booleanQuerySchema.optional(),
+    tag: tagSchema.optional(),
+    branch: branchSchema.optional(),
+    environment: environmentNameSchema.optional(),
+  })
+  .refine((s) => !(s.pacticipant && s.label), {
+    message: "pacticipant and label cannot be combined",
+    path: ["label"],
+  })
+  .refine((s) => !(s.label && s.version), {
+    message: "version cannot be combined with label",
+    path: ["version"],
+  });
+
+const ignoreSchema = z.object({
+  pacticipant: nameSchema,
+  version: versionSchema.optional(),
+});
+
+const matrixOptionsSchema = z.object({
+  latestby: z.enum(["cvp", "cvpv"], { message: "latestby must be cvp or cvpv" }).optional(),
+  limit: z.coerce
+    .number()
+    .int("limit must be an integer")
+    .min(1, "limit must be at least 1")
+    .max(MAX_MATRIX_LIMIT, `limit cannot exceed ${MAX_MATRIX_LIMIT}`)
+    .optional(),
+  success: z.array(booleanQuerySchema).optional(),
+  latest: booleanQuerySchema.optional(),
+  tag: tagSchema.optional(),
+  environment: environmentNameSchema.optional(),
+});
+
+/**
+ * Group Rails-style `name[][field]=value` params into entries. As in Rails,
+ * a field that repeats within the current entry starts the next one, so
+ * `q[][pacticipant]=A&q[][version]=1&q[][pacticipant]=B` is two entries.
+ */
+function collectQueryArray(params: URLSearchParams, name: string): Array<Record<string, string>> {
+  const entries: Array<Record<string, string>> = [];
+  let current: Record<string, string> | undefined;
+  for (const [key, value] of params) {
+    if (!key.startsWith(`${name}[][`) || !key.endsWith("]")) continue;
+    const field = key.slice(name.length + 3, -1);
+    if (!current || field in current) {
+      current = {};
+      entries.push(current);
+    }
+    current[field] = value;
+  }
+  return entries;
+}
+
+// Who asked: the shared bearer token identifies no one, so record the
+// client's User-Agent and the request id that appears in the access log.
+function decisionCaller(c: Context<HonoEnv>): { caller: string | null; requestId: string | null } {
+  return { caller: c.req.header("User-Agent") ?? null, requestId: c.get("requestId") ?? null };
+}
+
+function decisionRowLinks(hal: HalBuilder, row: MatrixRow): HalLinks {
+  const provider = encodeURIComponent(row.provider.name);
+  const consumer = encodeURIComponent(row.consumer.name);
+  const pactVersion = `/pacts/provider/${provider}/consumer/${consumer}/pact-version/${row.pactVersion.sha}`;
+  return {
+    self: hal.link(pactVersion),
+    ...(row.verificationResult && {
+      "pb:verification-result": hal.link(
+        `${pactVersion}/verification-results/${row.verificationResult.id}`,
+      ),
+    }),
+  };
+}
+
+// How /can-i-deploy maps its verdict onto the response status. "always-200"
+// leaves callers to read `summary.deployable`; "by-result" lets a plain
+// `curl --fail` gate on it.
+const httpStatusSchema = z.enum(["always-200", "by-result"], {
+  message: "must be always-200 or by-result",
+});
+type HttpStatusMode = z.infer<typeof httpStatusSchema>;
+
+function defaultHttpStatus(env: Env): HttpStatusMode {
+  const parsed = httpStatusSchema.safeParse(env.CAN_I_DEPLOY_HTTP_STATUS);
+  return parsed.success ? parsed.data : "always-200";
+}
+
+// 409 when something failed, 425 Too Early when the only problem is
+// verification results that haven't arrived yet.
+function canIDeployStatus(
+  mode: HttpStatusMode,
+  summary: CanIDeployResponse["summary"],
+): 200 | 409 | 425 {
+  if (mode === "always-200" || summary.deployable) return 200;
+  return summary.unknown > 0 && summary.failed === 0 ? 425 : 409;
+}
+
+function matrixNotice(row: MatrixRow): Notice {
+  const consumer = `version ${row.consumer.version} of ${row.consumer.name}`;
+  const provider = row.provider.version
+    ? `version ${row.provider.version} of ${row.provider.name}`
+    : `a version of ${row.provider.name}`;
+  if (!row.verificationResult) {
+    return {
+      type: "warning",
+      text: `There is no verified pact between ${consumer} and ${provider}`,
+    };
+  }
+  return row.verificationResult.success
+    ? {
+        type: "success",
+        text: `The verification for the pact between ${consumer} and ${provider} passed`,
+      }
+    : {
+        type: "danger",
+        text: `The verification for the pact between ${consumer} and ${provider} failed`,
+      };
+}
+
 // Query the matrix
 app.get("/matrix", async (c) => {
-  // Parse query params - supports both array format and single values
-  const pacticipantRaw = c.req.query("q[][pacticipant]") ?? c.req.query("pacticipant");
-  const versionRaw = c.req.query("q[][version]") ?? c.req.query("version");
-  const latestTagRaw = c.req.query("q[][tag]") ?? c.req.query("tag");
+  const params = new URL(c.req.url).searchParams;
+  const rawSelectors = collectQueryArray(params, "q");
+  // The single-selector form `pacticipant=A&version=1` is also accepted
+  if (rawSelectors.length === 0 && params.has("pacticipant")) {
+    const version = params.get("version");
+    rawSelectors.push({
+      pacticipant: params.get("pacticipant")!,
+      ...(version !== null && { version }),
+    });
+  }
 
-  if (!pacticipantRaw) {
+  if (
+    rawSelectors.length === 0 ||
+    rawSelectors.some((s) => s.pacticipant === undefined && s.label === undefined)
+  ) {
     return c.json(
       {
         error: "Bad Request",
-        message: "pacticipant query parameter is required",
+        message: "pacticipant (or label) query parameter is required",
       },
       400,
     );
   }
 
-  const pacticipantResult = validateParam(c, nameSchema, pacticipantRaw, "pacticipant");
-  if (!pacticipantResult.valid) return pacticipantResult.response;
-  const pacticipant = pacticipantResult.value;
-
-  const versionResult = validateOptionalQuery(c, versionSchema, versionRaw, "version");
-  if (!versionResult.valid) return versionResult.response;
-  const version = versionResult.value;
+  const selectors: MatrixSelector[] = [];
+  for (const [index, raw] of rawSelectors.entries()) {
+    const parsed = matrixSelectorSchema.safeParse(raw);
+    if (!parsed.success) {
+      const first = parsed.error.errors[0];
+      return c.json(
+        {
+          error: "Bad Request",
+          message: `Invalid q[${index}][${first?.path.join(".")}]: ${first?.message ?? "Invalid input"}`,
+        },
+        400,
+      );
+    }
+    selectors.push(parsed.data);
+  }
 
-  const tagResult = validateOptionalQuery(c, tagSchema, latestTagRaw, "tag");
-  if (!tagResult.valid) return tagResult.response;
-  const latestTag = tagResult.value;
+  const options = matrixOptionsSchema.safeParse({
+    latestby: params.get("latestby") ?? undefined,
+    limit: params.get("limit") ?? undefined,
+    success: params.has("success[]") ? params.getAll("success[]") : undefined,
+    latest: params.get("latest") ?? undefined,
+    tag: params.get("tag") ?? undefined,
+    environment: params.get("environment") ?? undefined,
+  });
+  if (!options.success) {
+    const first = options.error.errors[0];
+    return c.json(
+      {
+        error: "Bad Request",
+        message: `Invalid ${first?.path[0]}: ${first?.message ?? "Invalid input"}`,
+      },
+      400,
+    );
+  }
 
   const broker = getBroker(c.env);
-  const matrix = await broker.getMatrix(pacticipant, version, latestTag);
+  const matrix = await broker.queryMatrix({ selectors, ...options.data });
+
+  const success = matrix.filter((row) => row.verificationResult?.success === true).length;
+  const failed = matrix.filter((row) => row.verificationResult?.success === false).length;
+  const unknown = matrix.filter((row) => !row.verificationResult).length;
 
   const hal = new HalBuilder(getBaseUrl(c.req.raw));
   const response: MatrixResponse = {
     summary: {
-      deployable: matrix.every((row) => row.verificationResult?.success === true),
+      deployable: failed === 0 && unknown === 0,
       reason:
         matrix.length === 0
           ? "No pacts found"
-          : matrix.every((row) => row.verificationResult?.success === true)
+          : failed === 0 && unknown === 0
             ? "All pacts verified successfully"
             : "Some pacts failed verification or are unverified",
+      success,
+      failed,
+      unknown,
     },
+    notices: matrix.map(matrixNotice),
     matrix,
     _links: hal.matrix(),
   };
@@ -73,6 +276,7 @@ app.get("/can-i-deploy", async (c) => {
   const pacticipantRaw = c.req.query("pacticipant");
   const versionRaw = c.req.query("version");
   const toRaw = c.req.query("to") ?? c.req.query("toTag");
+  const environmentRaw = c.req.query("environment");
 
   if (!pacticipantRaw || !versionRaw) {
     return c.json(
@@ -84,6 +288,16 @@ app.get("/can-i-deploy", async (c) => {
     );
   }
 
+  if (toRaw !== undefined && environmentRaw !== undefined) {
+    return c.json(
+      {
+        error: "Bad Request",
+        message: "Specify either to (a tag) or environment, not both",
+      },
+      400,
+    );
+  }
+
   const pacticipantResult = validateParam(c, nameSchema, pacticipantRaw, "pacticipant");
   if (!pacticipantResult.valid) return pacticipantResult.response;
   const pacticipant = pacticipantResult.value;
@@ -92,27 +306,264 @@ app.get("/can-i-deploy", async (c) => {
   if (!versionResult.valid) return versionResult.response;
   const version = versionResult.value;
 
-  // 'to' can be either an environment name or a tag — both use the same permitted
-  // character set, so validate with environmentNameSchema if present (strictest).
-  const toResult = validateOptionalQuery(c, environmentNameSchema, toRaw, "to");
+  // 'to' is a tag carried by the counterpart versions; use 'environment' to
+  // check against recorded deployments.
+  const toResult = validateOptionalQuery(c, tagSchema, toRaw, "to");
   if (!toResult.valid) return toResult.response;
   const toTag = toResult.value;
 
+  const environmentResult = validateOptionalQuery(
+    c,
+    environmentNameSchema,
+    environmentRaw,
+    "environment",
+  );
+  if (!environmentResult.valid) return environmentResult.response;
+  const environment = environmentResult.value;
+
+  // Seconds to hold the request open while verification results are missing
+  const waitResult = validateOptionalQuery(c, waitSchema, c.req.query("wait"), "wait");
+  if (!waitResult.valid) return waitResult.response;
+  const wait = waitResult.value;
+
+  // Rows involving these pacticipants (versions) are reported but not judged
+  const ignore: CanIDeployIgnore[] = [];
+  for (const [index, raw] of collectQueryArray(
+    new URL(c.req.url).searchParams,
+    "ignore",
+  ).entries()) {
+    const parsed = ignoreSchema.safeParse(raw);
+    if (!parsed.success) {
+      const first = parsed.error.errors[0];
+      return c.json(
+        {
+          error: "Bad Request",
+          message: `Invalid ignore[${index}][${first?.path.join(".")}]: ${first?.message ?? "Invalid input"}`,
+        },
+        400,
+      );
+    }
+    ignore.push(parsed.data);
+  }
+
+  // A dry run reports the real verdict but never blocks the caller
+  const dryRunResult = validateOptionalQuery(
+    c,
+    z.enum(["true", "false"], { message: "must be true or false" }),
+    c.req.query("dryRun"),
+    "dryRun",
+  );
+  if (!dryRunResult.valid) return dryRunResult.response;
+  const dryRun = dryRunResult.value === "true";
+
+  const httpStatusResult = validateOptionalQuery(
+    c,
+    httpStatusSchema,
+    c.req.query("httpStatus"),
+    "httpStatus",
+  );
+  if (!httpStatusResult.valid) return httpStatusResult.response;
+  const httpStatus = httpStatusResult.value ?? defaultHttpStatus(c.env);
+
   const broker = getBroker(c.env);
-  const result = await broker.canIDeploy(pacticipant, version, toTag);
+  if (environment && !(await broker.getEnvironment(environment))) {
+    return c.json({ error: "Not Found", message: "Environment not found" }, 404);
+  }
+  if (environment && !(await broker.getVersion(pacticipant, version))) {
+    return c.json({ error: "Not Found", message: "Version not found" }, 404);
+  }
+  const result = wait
+    ? await broker.canIDeployWaiting(
+        pacticipant,
+        version,
+        { toTag, environment, ignore },
+        wait * 1000,
+      )
+    : environment
+      ? await broker.canIDeployToEnvironment(pacticipant, version, environment, ignore)
+      : await broker.canIDeploy(pacticipant, version, toTag, ignore);
+  const reason = dryRun ? `[dry-run] ${result.reason}` : result.reason;
+
+  await broker.recordCanIDeployDecisions([
+    {
+      pacticipant,
+      version,
+      toTag: toTag ?? null,
+      environment: environment ?? null,
+      deployable: result.deployable,
+      reason,
+      matrix: JSON.stringify(result.matrix),
+      ...decisionCaller(c),
+    },
+  ]);
 
+  const judged = result.matrix.filter((row) => !row.ignored);
   const hal = new HalBuilder(getBaseUrl(c.req.raw));
   const response: CanIDeployResponse = {
     summary: {
-      deployable: result.deployable,
-      reason: result.reason,
+      deployable: dryRun || result.deployable,
+      reason,
+      success: judged.filter((row) => row.verificationResult?.success === true).length,
+      failed: judged.filter((row) => row.verificationResult?.success === false).length,
+      unknown: judged.filter((row) => !row.verificationResult).length,
+      ignored: result.matrix.length - judged.length,
+      ...(dryRun && { dryRun: true }),
     },
     matrix: result.matrix,
     _links: hal.canIDeploy(),
   };
 
-  // Return appropriate status code based on deployability
-  return c.json(response, result.deployable ? 200 : 200);
+  return c.json(response, canIDeployStatus(httpStatus, response.summary));
+});
+
+const batchSchema = z.object({
+  environment: environmentNameSchema,
+  versions: z
+    .array(z.object({ pacticipant: nameSchema, version: versionSchema }))
+    .min(1, "versions must contain at least one pacticipant version")
+    .max(MAX_BATCH_SIZE, `versions cannot contain more than ${MAX_BATCH_SIZE} entries`)
+    .refine(
+      (versions) => new Set(versions.map((v) => v.pacticipant)).size === versions.length,
+      "versions must name each pacticipant once",
+    ),
+});
+
+// Can I Deploy several pacticipant versions to one environment together
+app.post("/can-i-deploy/batch", async (c) => {
+  let raw: unknown;
+  try {
+    raw = await c.req.json();
+  } catch {
+    return c.json({ error: "Bad Request", message: "Invalid JSON body" }, 400);
+  }
+
+  const parsed = batchSchema.safeParse(raw);
+  if (!parsed.success) {
+    const first = parsed.error.errors[0];
+    return c.json(
+      {
+        error: "Bad Request",
+        message: first ? `${first.path.join(".")}: ${first.message}` : "Invalid request",
+      },
+      400,
+    );
+  }
+  const body = parsed.data;
+
+  const broker = getBroker(c.env);
+  if (!(await broker.getEnvironment(body.environment))) {
+    return c.json({ error: "Not Found", message: "Environment not found" }, 404);
+  }
+  const result = await broker.canIDeployBatch(body.environment, body.versions);
+  if ("notFound" in result) {
+    return c.json({ error: "Not Found", message: result.notFound }, 404);
+  }
+
+  // One decision per version, so each can be found by its own pacticipant
+  const matrix = JSON.stringify(result.pairs.map((pair) => pair.row));
+  await broker.recordCanIDeployDecisions(
+    body.versions.map(({ pacticipant, version }) => ({
+      pacticipant,
+      version,
+      environment: body.environment,
+      batch: JSON.stringify(body.versions),
+      deployable: result.deployable,
+      reason: result.reason,
+      matrix,
+      ...decisionCaller(c),
+    })),
+  );
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  const response: CanIDeployBatchResponse = {
+    summary: {
+      deployable: result.deployable,
+      reason: result.reason,
+    },
+    pairs: result.pairs.map(({ row, ok, message }) => ({
+      ...row,
+      deployable: ok,
+      reason: message,
+    })),
+    _links: hal.canIDeployBatch(),
+  };
+
+  return c.json(response);
+});
+
+// Decision log - every can-i-deploy evaluation, newest first
+app.get("/can-i-deploy/decisions", async (c) => {
+  const pacticipantResult = validateOptionalQuery(
+    c,
+    nameSchema,
+    c.req.query("pacticipant"),
+    "pacticipant",
+  );
+  if (!pacticipantResult.valid) return pacticipantResult.response;
+  const versionResult = validateOptionalQuery(c, versionSchema, c.req.query("version"), "version");
+  if (!versionResult.valid) return versionResult.response;
+  const environmentResult = validateOptionalQuery(
+    c,
+    environmentNameSchema,
+    c.req.query("environment"),
+    "environment",
+  );
+  if (!environmentResult.valid) return environmentResult.response;
+  const pageResult = validateOptionalQuery(c, pageNumberSchema, c.req.query("page"), "page");
+  if (!pageResult.valid) return pageResult.response;
+  const sizeResult = validateOptionalQuery(c, pageSizeSchema, c.req.query("size"), "size");
+  if (!sizeResult.valid) return sizeResult.response;
+
+  const filters = {
+    pacticipant: pacticipantResult.value,
+    version: versionResult.value,
+    environment: environmentResult.value,
+  };
+  const page = pageResult.value ?? 1;
+  const size = sizeResult.value ?? DEFAULT_DECISIONS_PAGE_SIZE;
+
+  const broker = getBroker(c.env);
+  const { decisions, total } = await broker.getCanIDeployDecisions(filters, page, size);
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  const pageLink = (number: number) => {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filters)) {
+      if (value) params.set(key, value);
+    }
+    params.set("page", String(number));
+    params.set("size", String(size));
+    return hal.link(`/can-i-deploy/decisions?${params}`);
+  };
+  const totalPages = Math.ceil(total / size);
+
+  const response: CanIDeployDecisionsResponse = {
+    decisions: decisions.map((decision) => ({
+      id: decision.id,
+      pacticipant: decision.pacticipant,
+      version: decision.version,
+      to: decision.toTag,
+      environment: decision.environment,
+      batch: decision.batch ? JSON.parse(decision.batch) : null,
+      deployable: decision.deployable,
+      reason: decision.reason,
+      matrix: (JSON.parse(decision.matrix) as MatrixRow[]).map((row) => ({
+        ...row,
+        _links: decisionRowLinks(hal, row),
+      })),
+      caller: decision.caller,
+      requestId: decision.requestId,
+      decidedAt: decision.decidedAt,
+    })),
+    page: { number: page, size, totalElements: total, totalPages },
+    _links: {
+      self: pageLink(page),
+      ...(page < totalPages && { next: pageLink(page + 1) }),
+      ...(page > 1 && { previous: pageLink(page - 1) }),
+    },
+  };
+
+  return c.json(response);
 });
 
 export { app as matrixRoutes };
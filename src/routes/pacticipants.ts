@@ -1,18 +1,27 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
+import { z } from "zod";
 import type {
   Env,
   PacticipantResponse,
+  LabelResponse,
+  BranchResponse,
+  BranchVersionResponse,
   VersionResponse,
   TagResponse,
   DeploymentResponse,
+  ReleaseResponse,
 } from "../types";
 import { HalBuilder, getBaseUrl } from "../services/hal";
 import {
   nameSchema,
   versionSchema,
   tagSchema,
+  branchSchema,
+  labelSchema,
   environmentNameSchema,
+  applicationInstanceSchema,
   validateParam,
+  validateOptionalQuery,
 } from "../lib/validation";
 
 const app = new Hono<{ Bindings: Env }>();
@@ -23,10 +32,125 @@ function getBroker(env: Env) {
   return env.PACT_BROKER.get(id);
 }
 
-// List all pacticipants
+const pacticipantUpdateSchema = z.object({
+  displayName: z.string().max(255, "displayName exceeds 255 characters").nullable().optional(),
+  mainBranch: branchSchema.nullable().optional(),
+  repositoryUrl: z.string().url("repositoryUrl must be a valid URL").nullable().optional(),
+  repositoryName: z
+    .string()
+    .max(255, "repositoryName exceeds 255 characters")
+    .nullable()
+    .optional(),
+  repositoryNamespace: z
+    .string()
+    .max(255, "repositoryNamespace exceeds 255 characters")
+    .nullable()
+    .optional(),
+  metadata: z.record(z.unknown()).nullable().optional(),
+});
+
+const versionUpdateSchema = z.object({
+  branch: branchSchema.nullable().optional(),
+  buildUrl: z.string().url("buildUrl must be a valid URL").nullable().optional(),
+  metadata: z.record(z.unknown()).nullable().optional(),
+});
+
+function parseMetadata(json: string | null): Record<string, unknown> | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+function serialiseVersion(
+  hal: HalBuilder,
+  pacticipantName: string,
+  version: {
+    number: string;
+    branch: string | null;
+    buildUrl: string | null;
+    metadata: string | null;
+    createdAt: string;
+  },
+): VersionResponse {
+  return {
+    number: version.number,
+    branch: version.branch,
+    buildUrl: version.buildUrl,
+    metadata: parseMetadata(version.metadata),
+    createdAt: version.createdAt,
+    _links: hal.version(pacticipantName, version.number),
+  };
+}
+
+function serialisePacticipant(
+  hal: HalBuilder,
+  pacticipant: {
+    name: string;
+    displayName: string | null;
+    mainBranch: string | null;
+    repositoryUrl: string | null;
+    repositoryName: string | null;
+    repositoryNamespace: string | null;
+    metadata: string | null;
+    createdAt: string;
+  },
+  labels: string[],
+): PacticipantResponse {
+  return {
+    name: pacticipant.name,
+    displayName: pacticipant.displayName,
+    mainBranch: pacticipant.mainBranch,
+    repositoryUrl: pacticipant.repositoryUrl,
+    repositoryName: pacticipant.repositoryName,
+    repositoryNamespace: pacticipant.repositoryNamespace,
+    metadata: parseMetadata(pacticipant.metadata),
+    createdAt: pacticipant.createdAt,
+    _links: hal.pacticipant(pacticipant.name, labels),
+  };
+}
+
+// Read and validate a PUT/PATCH body, or build the 400 response.
+async function readBody<T>(
+  c: Context,
+  schema: z.ZodSchema<T>,
+  fallbackMessage: string,
+): Promise<{ valid: true; value: T } | { valid: false; response: Response }> {
+  let raw: unknown;
+  try {
+    raw = await c.req.json();
+  } catch {
+    return {
+      valid: false,
+      response: c.json({ error: "Bad Request", message: "Invalid JSON body" }, 400),
+    };
+  }
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    const first = parsed.error.errors[0];
+    return {
+      valid: false,
+      response: c.json(
+        {
+          error: "Bad Request",
+          message: first ? `${first.path.join(".")}: ${first.message}` : fallbackMessage,
+        },
+        400,
+      ),
+    };
+  }
+  return { valid: true, value: parsed.data };
+}
+
+// List all pacticipants, optionally only those carrying ?label=
 app.get("/", async (c) => {
+  const labelResult = validateOptionalQuery(c, labelSchema, c.req.query("label"), "label");
+  if (!labelResult.valid) return labelResult.response;
+
   const broker = getBroker(c.env);
-  const pacticipants = await broker.getAllPacticipants();
+  const pacticipants = await broker.getAllPacticipants(labelResult.value);
   const hal = new HalBuilder(getBaseUrl(c.req.raw));
 
   const response = {
@@ -34,11 +158,29 @@ app.get("/", async (c) => {
       self: hal.link("/pacticipants"),
     },
     _embedded: {
-      pacticipants: pacticipants.map((p) => ({
-        name: p.name,
-        createdAt: p.createdAt,
-        _links: hal.pacticipant(p.name),
-      })),
+      pacticipants: pacticipants.map((p) => serialisePacticipant(hal, p, p.labels)),
+    },
+  };
+
+  return c.json(response);
+});
+
+// List the pacticipants carrying a label
+app.get("/label/:label", async (c) => {
+  const labelResult = validateParam(c, labelSchema, c.req.param("label"), "label");
+  if (!labelResult.valid) return labelResult.response;
+  const label = labelResult.value;
+
+  const broker = getBroker(c.env);
+  const pacticipants = await broker.getAllPacticipants(label);
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+
+  const response = {
+    _links: {
+      self: hal.link(`/pacticipants/label/${encodeURIComponent(label)}`),
+    },
+    _embedded: {
+      pacticipants: pacticipants.map((p) => serialisePacticipant(hal, p, p.labels)),
     },
   };
 
@@ -58,16 +200,332 @@ app.get("/:name", async (c) => {
     return c.json({ error: "Not Found", message: "Pacticipant not found" }, 404);
   }
 
+  const labels = await broker.getLabelsForPacticipant(name);
   const hal = new HalBuilder(getBaseUrl(c.req.raw));
-  const response: PacticipantResponse = {
-    name: pacticipant.name,
-    createdAt: pacticipant.createdAt,
-    _links: hal.pacticipant(pacticipant.name),
+  return c.json(
+    serialisePacticipant(
+      hal,
+      pacticipant,
+      labels.map((l) => l.name),
+    ),
+  );
+});
+
+// Create or replace a pacticipant's metadata
+app.put("/:name", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const update = await readBody(c, pacticipantUpdateSchema, "Invalid pacticipant");
+  if (!update.valid) return update.response;
+
+  const broker = getBroker(c.env);
+  const { pacticipant, created } = await broker.putPacticipant(name, update.value);
+
+  const labels = await broker.getLabelsForPacticipant(name);
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  return c.json(
+    serialisePacticipant(
+      hal,
+      pacticipant,
+      labels.map((l) => l.name),
+    ),
+    created ? 201 : 200,
+  );
+});
+
+// Update some of a pacticipant's metadata
+app.patch("/:name", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const update = await readBody(c, pacticipantUpdateSchema, "Invalid pacticipant");
+  if (!update.valid) return update.response;
+
+  const broker = getBroker(c.env);
+  const pacticipant = await broker.patchPacticipant(name, update.value);
+  if (!pacticipant) {
+    return c.json({ error: "Not Found", message: "Pacticipant not found" }, 404);
+  }
+
+  const labels = await broker.getLabelsForPacticipant(name);
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  return c.json(
+    serialisePacticipant(
+      hal,
+      pacticipant,
+      labels.map((l) => l.name),
+    ),
+  );
+});
+
+// List branches for a pacticipant
+app.get("/:name/branches", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const broker = getBroker(c.env);
+  const pacticipant = await broker.getPacticipant(name);
+  if (!pacticipant) {
+    return c.json({ error: "Not Found", message: "Pacticipant not found" }, 404);
+  }
+
+  const branches = await broker.getBranches(name);
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+
+  const response = {
+    _links: {
+      self: hal.link(`/pacticipants/${encodeURIComponent(name)}/branches`),
+    },
+    _embedded: {
+      branches: branches.map((b) => ({
+        name: b.name,
+        createdAt: b.createdAt,
+        _links: hal.branch(name, b.name),
+      })),
+    },
   };
 
   return c.json(response);
 });
 
+// Get a specific branch
+app.get("/:name/branches/:branch", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const branchResult = validateParam(c, branchSchema, c.req.param("branch"), "branch");
+  if (!branchResult.valid) return branchResult.response;
+
+  const broker = getBroker(c.env);
+  const branch = await broker.getBranch(name, branchResult.value);
+
+  if (!branch) {
+    return c.json({ error: "Not Found", message: "Branch not found" }, 404);
+  }
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  const response: BranchResponse = {
+    name: branch.name,
+    createdAt: branch.createdAt,
+    _links: hal.branch(name, branch.name),
+  };
+
+  return c.json(response);
+});
+
+// Delete a branch and its version history (the versions themselves are kept)
+app.delete("/:name/branches/:branch", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const branchResult = validateParam(c, branchSchema, c.req.param("branch"), "branch");
+  if (!branchResult.valid) return branchResult.response;
+
+  const broker = getBroker(c.env);
+  const deleted = await broker.deleteBranch(name, branchResult.value);
+
+  if (!deleted) {
+    return c.json({ error: "Not Found", message: "Branch not found" }, 404);
+  }
+
+  return c.body(null, 204);
+});
+
+// List the versions on a branch, newest first
+app.get("/:name/branches/:branch/versions", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const branchResult = validateParam(c, branchSchema, c.req.param("branch"), "branch");
+  if (!branchResult.valid) return branchResult.response;
+  const branchName = branchResult.value;
+
+  const broker = getBroker(c.env);
+  const versions = await broker.getBranchVersions(name, branchName);
+
+  if (!versions) {
+    return c.json({ error: "Not Found", message: "Branch not found" }, 404);
+  }
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  const response = {
+    _links: {
+      self: hal.link(
+        `/pacticipants/${encodeURIComponent(name)}/branches/${encodeURIComponent(branchName)}/versions`,
+      ),
+      "pb:branch": hal.branch(name, branchName).self,
+    },
+    _embedded: {
+      versions: versions.map((v) => serialiseVersion(hal, name, v)),
+    },
+  };
+
+  return c.json(response);
+});
+
+// Get a version's membership of a branch
+app.get("/:name/branches/:branch/versions/:version", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const branchResult = validateParam(c, branchSchema, c.req.param("branch"), "branch");
+  if (!branchResult.valid) return branchResult.response;
+
+  const versionResult = validateParam(c, versionSchema, c.req.param("version"), "version");
+  if (!versionResult.valid) return versionResult.response;
+
+  const broker = getBroker(c.env);
+  const branchVersion = await broker.getBranchVersion(
+    name,
+    branchResult.value,
+    versionResult.value,
+  );
+
+  if (!branchVersion) {
+    return c.json({ error: "Not Found", message: "Branch version not found" }, 404);
+  }
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  const response: BranchVersionResponse = {
+    branch: branchResult.value,
+    version: versionResult.value,
+    createdAt: branchVersion.createdAt,
+    _links: hal.branchVersion(name, branchResult.value, versionResult.value),
+  };
+
+  return c.json(response);
+});
+
+// Put a version on a branch, creating the pacticipant, version and branch if needed
+app.put("/:name/branches/:branch/versions/:version", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const branchResult = validateParam(c, branchSchema, c.req.param("branch"), "branch");
+  if (!branchResult.valid) return branchResult.response;
+
+  const versionResult = validateParam(c, versionSchema, c.req.param("version"), "version");
+  if (!versionResult.valid) return versionResult.response;
+
+  const broker = getBroker(c.env);
+  const result = await broker.addBranchVersion(name, branchResult.value, versionResult.value);
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  const response: BranchVersionResponse = {
+    branch: branchResult.value,
+    version: versionResult.value,
+    createdAt: result.branchVersion.createdAt,
+    _links: hal.branchVersion(name, branchResult.value, versionResult.value),
+  };
+
+  return c.json(response, result.created ? 201 : 200);
+});
+
+// Get the latest version on a branch
+app.get("/:name/branches/:branch/latest-version", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const branchResult = validateParam(c, branchSchema, c.req.param("branch"), "branch");
+  if (!branchResult.valid) return branchResult.response;
+
+  const broker = getBroker(c.env);
+  const versions = await broker.getBranchVersions(name, branchResult.value);
+
+  if (!versions) {
+    return c.json({ error: "Not Found", message: "Branch not found" }, 404);
+  }
+
+  const latest = versions[0];
+  if (!latest) {
+    return c.json({ error: "Not Found", message: "Branch has no versions" }, 404);
+  }
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  return c.json(serialiseVersion(hal, name, latest));
+});
+
+// Get a label
+app.get("/:name/labels/:label", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const labelResult = validateParam(c, labelSchema, c.req.param("label"), "label");
+  if (!labelResult.valid) return labelResult.response;
+
+  const broker = getBroker(c.env);
+  const label = await broker.getLabel(name, labelResult.value);
+
+  if (!label) {
+    return c.json({ error: "Not Found", message: "Label not found" }, 404);
+  }
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  const response: LabelResponse = {
+    name: label.name,
+    createdAt: label.createdAt,
+    _links: hal.label(name, label.name),
+  };
+
+  return c.json(response);
+});
+
+// Label a pacticipant
+app.put("/:name/labels/:label", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const labelResult = validateParam(c, labelSchema, c.req.param("label"), "label");
+  if (!labelResult.valid) return labelResult.response;
+
+  const broker = getBroker(c.env);
+  const result = await broker.addLabel(name, labelResult.value);
+
+  if (!result) {
+    return c.json({ error: "Not Found", message: "Pacticipant not found" }, 404);
+  }
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  const response: LabelResponse = {
+    name: result.label.name,
+    createdAt: result.label.createdAt,
+    _links: hal.label(name, result.label.name),
+  };
+
+  return c.json(response, result.created ? 201 : 200);
+});
+
+// Remove a label
+app.delete("/:name/labels/:label", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const labelResult = validateParam(c, labelSchema, c.req.param("label"), "label");
+  if (!labelResult.valid) return labelResult.response;
+
+  const broker = getBroker(c.env);
+  const removed = await broker.removeLabel(name, labelResult.value);
+
+  if (!removed) {
+    return c.json({ error: "Not Found", message: "Label not found" }, 404);
+  }
+
+  return c.body(null, 204);
+});
+
 // List versions for a pacticipant
 app.get("/:name/versions", async (c) => {
   const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
@@ -83,13 +541,7 @@ app.get("/:name/versions", async (c) => {
       self: hal.link(`/pacticipants/${encodeURIComponent(name)}/versions`),
     },
     _embedded: {
-      versions: versions.map((v) => ({
-        number: v.number,
-        branch: v.branch,
-        buildUrl: v.buildUrl,
-        createdAt: v.createdAt,
-        _links: hal.version(name, v.number),
-      })),
+      versions: versions.map((v) => serialiseVersion(hal, name, v)),
     },
   };
 
@@ -120,15 +572,56 @@ app.get("/:name/versions/:version", async (c) => {
   }
 
   const hal = new HalBuilder(getBaseUrl(c.req.raw));
-  const response: VersionResponse = {
-    number: version.number,
-    branch: version.branch,
-    buildUrl: version.buildUrl,
-    createdAt: version.createdAt,
-    _links: hal.version(name, version.number),
-  };
+  return c.json(serialiseVersion(hal, name, version));
+});
 
-  return c.json(response);
+// Create a version or replace its build URL and metadata
+app.put("/:name/versions/:version", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const versionResult = validateParam(c, versionSchema, c.req.param("version"), "version");
+  if (!versionResult.valid) return versionResult.response;
+  const versionNumber = versionResult.value;
+
+  const update = await readBody(c, versionUpdateSchema, "Invalid version");
+  if (!update.valid) return update.response;
+
+  const broker = getBroker(c.env);
+  const result = await broker.putVersion(name, versionNumber, update.value);
+  if ("conflict" in result) {
+    return c.json({ error: "Conflict", message: result.conflict }, 409);
+  }
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  return c.json(serialiseVersion(hal, name, result.version), result.created ? 201 : 200);
+});
+
+// Update some of a version's properties
+app.patch("/:name/versions/:version", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const versionResult = validateParam(c, versionSchema, c.req.param("version"), "version");
+  if (!versionResult.valid) return versionResult.response;
+  const versionNumber = versionResult.value;
+
+  const update = await readBody(c, versionUpdateSchema, "Invalid version");
+  if (!update.valid) return update.response;
+
+  const broker = getBroker(c.env);
+  const result = await broker.patchVersion(name, versionNumber, update.value);
+  if (!result) {
+    return c.json({ error: "Not Found", message: "Version not found" }, 404);
+  }
+  if ("conflict" in result) {
+    return c.json({ error: "Conflict", message: result.conflict }, 409);
+  }
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  return c.json(serialiseVersion(hal, name, result));
 });
 
 // Get tags for a version
@@ -245,6 +738,7 @@ app.get("/:name/versions/:version/deployed", async (c) => {
 
   const broker = getBroker(c.env);
   const deployments = await broker.getDeploymentsForVersion(name, versionNumber);
+  const archived = await broker.getArchivedDeploymentsForVersion(name, versionNumber);
   const hal = new HalBuilder(getBaseUrl(c.req.raw));
 
   const response = {
@@ -256,10 +750,30 @@ app.get("/:name/versions/:version/deployed", async (c) => {
     _embedded: {
       deployments: deployments.map(({ deployment, environment }) => ({
         environment: environment.name,
+        applicationInstance: deployment.applicationInstance,
         deployedAt: deployment.deployedAt,
         undeployedAt: deployment.undeployedAt,
-        _links: hal.deployment(name, versionNumber, environment.name),
+        _links: hal.deployment(
+          name,
+          versionNumber,
+          environment.name,
+          deployment.applicationInstance,
+        ),
       })),
+      archivedDeployments: archived.map(
+        (deployment): DeploymentResponse => ({
+          environment: deployment.environmentName,
+          applicationInstance: deployment.applicationInstance,
+          deployedAt: deployment.deployedAt,
+          undeployedAt: deployment.undeployedAt,
+          _links: {
+            self: hal.link(
+              `/pacticipants/${encodeURIComponent(name)}/versions/${encodeURIComponent(versionNumber)}/deployed`,
+            ),
+            "pb:version": hal.version(name, versionNumber).self,
+          },
+        }),
+      ),
     },
   };
 
@@ -285,6 +799,15 @@ app.put("/:name/versions/:version/deployed/:environment", async (c) => {
   if (!environmentResult.valid) return environmentResult.response;
   const environmentName = environmentResult.value;
 
+  const instanceResult = validateOptionalQuery(
+    c,
+    applicationInstanceSchema,
+    c.req.query("applicationInstance"),
+    "applicationInstance",
+  );
+  if (!instanceResult.valid) return instanceResult.response;
+  const applicationInstance = instanceResult.value;
+
   const broker = getBroker(c.env);
 
   // Ensure version exists first
@@ -293,7 +816,12 @@ app.put("/:name/versions/:version/deployed/:environment", async (c) => {
     return c.json({ error: "Not Found", message: "Version not found" }, 404);
   }
 
-  const deployment = await broker.recordDeployment(name, versionNumber, environmentName);
+  const deployment = await broker.recordDeployment(
+    name,
+    versionNumber,
+    environmentName,
+    applicationInstance,
+  );
 
   if (!deployment) {
     return c.json({ error: "Internal Error", message: "Failed to record deployment" }, 500);
@@ -302,9 +830,10 @@ app.put("/:name/versions/:version/deployed/:environment", async (c) => {
   const hal = new HalBuilder(getBaseUrl(c.req.raw));
   const response: DeploymentResponse = {
     environment: environmentName,
+    applicationInstance: deployment.applicationInstance,
     deployedAt: deployment.deployedAt,
     undeployedAt: deployment.undeployedAt,
-    _links: hal.deployment(name, versionNumber, environmentName),
+    _links: hal.deployment(name, versionNumber, environmentName, deployment.applicationInstance),
   };
 
   return c.json(response, 201);
@@ -329,9 +858,23 @@ app.delete("/:name/versions/:version/deployed/:environment", async (c) => {
   if (!environmentResult.valid) return environmentResult.response;
   const environmentName = environmentResult.value;
 
+  const instanceResult = validateOptionalQuery(
+    c,
+    applicationInstanceSchema,
+    c.req.query("applicationInstance"),
+    "applicationInstance",
+  );
+  if (!instanceResult.valid) return instanceResult.response;
+  const applicationInstance = instanceResult.value;
+
   const broker = getBroker(c.env);
 
-  const success = await broker.recordUndeployment(name, versionNumber, environmentName);
+  const success = await broker.recordUndeployment(
+    name,
+    versionNumber,
+    environmentName,
+    applicationInstance,
+  );
 
   if (!success) {
     return c.json({ error: "Not Found", message: "No active deployment found" }, 404);
@@ -340,4 +883,123 @@ app.delete("/:name/versions/:version/deployed/:environment", async (c) => {
   return c.body(null, 204);
 });
 
+// Get releases for a version
+app.get("/:name/versions/:version/released", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const versionResult = validateParam(c, versionSchema, c.req.param("version"), "version");
+  if (!versionResult.valid) return versionResult.response;
+  const versionNumber = versionResult.value;
+
+  const broker = getBroker(c.env);
+  const releases = await broker.getReleasesForVersion(name, versionNumber);
+  const archived = await broker.getArchivedReleasesForVersion(name, versionNumber);
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+
+  const response = {
+    _links: {
+      self: hal.link(
+        `/pacticipants/${encodeURIComponent(name)}/versions/${encodeURIComponent(versionNumber)}/released`,
+      ),
+    },
+    _embedded: {
+      releases: releases.map(
+        ({ release, environment }): ReleaseResponse => ({
+          environment: environment.name,
+          releasedAt: release.releasedAt,
+          supportEndedAt: release.supportEndedAt,
+          currentlySupported: release.supportEndedAt === null,
+          _links: hal.release(name, versionNumber, environment.name),
+        }),
+      ),
+      archivedReleases: archived.map(
+        (release): ReleaseResponse => ({
+          environment: release.environmentName,
+          releasedAt: release.releasedAt,
+          supportEndedAt: release.supportEndedAt,
+          currentlySupported: false,
+          _links: {
+            self: hal.link(
+              `/pacticipants/${encodeURIComponent(name)}/versions/${encodeURIComponent(versionNumber)}/released`,
+            ),
+            "pb:version": hal.version(name, versionNumber).self,
+          },
+        }),
+      ),
+    },
+  };
+
+  return c.json(response);
+});
+
+// Record a release
+app.put("/:name/versions/:version/released/:environment", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const versionResult = validateParam(c, versionSchema, c.req.param("version"), "version");
+  if (!versionResult.valid) return versionResult.response;
+  const versionNumber = versionResult.value;
+
+  const environmentResult = validateParam(
+    c,
+    environmentNameSchema,
+    c.req.param("environment"),
+    "environment",
+  );
+  if (!environmentResult.valid) return environmentResult.response;
+  const environmentName = environmentResult.value;
+
+  const broker = getBroker(c.env);
+  const result = await broker.recordRelease(name, versionNumber, environmentName);
+
+  if (!result) {
+    return c.json({ error: "Not Found", message: "Version not found" }, 404);
+  }
+  const { release, created } = result;
+
+  const hal = new HalBuilder(getBaseUrl(c.req.raw));
+  const response: ReleaseResponse = {
+    environment: environmentName,
+    releasedAt: release.releasedAt,
+    supportEndedAt: release.supportEndedAt,
+    currentlySupported: release.supportEndedAt === null,
+    _links: hal.release(name, versionNumber, environmentName),
+  };
+
+  return c.json(response, created ? 201 : 200);
+});
+
+// Record that support for a released version has ended
+app.delete("/:name/versions/:version/released/:environment", async (c) => {
+  const nameResult = validateParam(c, nameSchema, c.req.param("name"), "name");
+  if (!nameResult.valid) return nameResult.response;
+  const name = nameResult.value;
+
+  const versionResult = validateParam(c, versionSchema, c.req.param("version"), "version");
+  if (!versionResult.valid) return versionResult.response;
+  const versionNumber = versionResult.value;
+
+  const environmentResult = validateParam(
+    c,
+    environmentNameSchema,
+    c.req.param("environment"),
+    "environment",
+  );
+  if (!environmentResult.valid) return environmentResult.response;
+  const environmentName = environmentResult.value;
+
+  const broker = getBroker(c.env);
+  const ended = await broker.recordSupportEnded(name, versionNumber, environmentName);
+
+  if (!ended) {
+    return c.json({ error: "Not Found", message: "No supported release found" }, 404);
+  }
+
+  return c.body(null, 204);
+});
+
 export { app as pacticipantRoutes };
@@ -16,13 +16,17 @@ import {
   tagSchema,
   validateParam,
 } from "../lib/validation";
+import {
+  validatePactContent,
+  pactConflictBody,
+  detectSpecificationVersion,
+} from "../lib/pact-content";
 
 const app = new Hono<{ Bindings: Env }>();
 
 // 1 MB per-route cap on PUT /pacts/... — well above real-world pacts (~100 KB)
 // while keeping a meaningful ceiling against leaked-token abuse.
 const PACT_PUBLISH_MAX_BYTES = 1 * 1024 * 1024;
-const MAX_INTERACTIONS = 1000;
 
 const pactPublishBodyLimit = bodyLimit({
   maxSize: PACT_PUBLISH_MAX_BYTES,
@@ -75,7 +79,11 @@ function buildPactResponse(
     consumerVersion: version.number,
     contentSha: pact.contentSha,
     createdAt: pact.createdAt,
-    interactions: content.interactions,
+    specificationVersion: detectSpecificationVersion(content),
+    // Message pacts carry `messages` instead of (or alongside) `interactions`;
+    // return whichever the pact was published with.
+    ...(content.interactions !== undefined && { interactions: content.interactions }),
+    ...(content.messages !== undefined && { messages: content.messages }),
     metadata: content.metadata,
     _links: hal.pact(provider.name, consumer.name, version.number, pact.contentSha),
   };
@@ -106,33 +114,26 @@ app.put(
       if (!branchResult.valid) return branchResult.response;
     }
 
-    let body: PactContent;
+    let body: unknown;
     try {
       body = await c.req.json();
     } catch {
       return c.json({ error: "Bad Request", message: "Invalid JSON body" }, 400);
     }
 
-    // Validate basic pact structure
-    if (!body.consumer || !body.provider || !body.interactions) {
-      return c.json(
-        {
-          error: "Bad Request",
-          message: "Pact must contain consumer, provider, and interactions",
-        },
-        400,
-      );
-    }
-
-    if (!Array.isArray(body.interactions)) {
-      return c.json({ error: "Bad Request", message: "interactions must be an array" }, 400);
+    const pactResult = validatePactContent(body);
+    if (!pactResult.valid) {
+      return c.json({ error: "Bad Request", message: pactResult.message }, 400);
     }
 
-    if (body.interactions.length > MAX_INTERACTIONS) {
+    // Pact versions are shared by SHA within a consumer/provider pair, so
+    // content naming another pair would be filed under the wrong one.
+    const { consumer, provider } = pactResult.content;
+    if (consumer.name !== consumerName || provider.name !== providerName) {
       return c.json(
         {
           error: "Bad Request",
-          message: `Pact contains ${body.interactions.length} interactions; the maximum is ${MAX_INTERACTIONS}`,
+          message: "consumer and provider names in the pact must match the URL",
         },
         400,
       );
@@ -143,13 +144,17 @@ app.put(
     // Get branch from query param if provided
     const branch = c.req.query("branch") ?? undefined;
 
-    const { pact: savedPact, created } = await broker.publishPact(
+    const published = await broker.publishPact(
       consumerName,
       consumerVersion,
       providerName,
-      body,
+      pactResult.content,
       branch,
     );
+    if ("conflict" in published) {
+      return c.json(pactConflictBody([published.conflict]), 409);
+    }
+    const { pact: savedPact, created } = published;
 
     // Fire any matching webhooks without blocking the response.
     c.executionCtx.waitUntil(
@@ -358,6 +363,100 @@ app.get("/latest", async (c) => {
   return c.json(response);
 });
 
+const PENDING_DOCS = "Read more at https://docs.pact.io/go/pending";
+
+// The notices the reference broker attaches when includePendingStatus is set,
+// telling the verifier whether a failure should fail the provider build.
+function pendingNotices(
+  providerName: string,
+  providerVersionBranch: string | undefined,
+  pending: boolean,
+): Array<{ text: string; when: string }> {
+  const by = providerVersionBranch
+    ? `a version of ${providerName} from branch '${providerVersionBranch}'`
+    : `a version of ${providerName}`;
+
+  if (!pending) {
+    return [
+      {
+        when: "before_verification",
+        text: `This pact has previously been successfully verified by ${by}. If this verification fails, it will fail the build. ${PENDING_DOCS}`,
+      },
+    ];
+  }
+
+  return [
+    {
+      when: "before_verification",
+      text: `This pact is in pending state for this version of ${providerName} because a successful verification result for ${by} has not yet been published. If this verification fails, it will not cause the overall build to fail. ${PENDING_DOCS}`,
+    },
+    {
+      when: "after_verification:success_true_published_false",
+      text: `This pact is still in pending state for ${by} as the successful verification results have not yet been published.`,
+    },
+    {
+      when: "after_verification:success_false_published_false",
+      text: `This pact is still in pending state for ${by} as a successful verification result has not yet been published.`,
+    },
+    {
+      when: "after_verification:success_true_published_true",
+      text: `This pact is no longer in pending state for ${by}, as a successful verification result has been published.`,
+    },
+    {
+      when: "after_verification:success_false_published_true",
+      text: `This pact is still in pending state for ${by} as a successful verification result has not yet been published.`,
+    },
+  ];
+}
+
+// Shared response shape for both for-verification handlers
+function buildPactsForVerification(
+  hal: HalBuilder,
+  providerName: string,
+  results: Array<{
+    pact: { contentSha: string };
+    consumer: { name: string };
+    versions: Array<{ number: string }>;
+    notices: string[];
+    pending: boolean;
+    wip?: boolean;
+  }>,
+  options: { includePendingStatus?: boolean; providerVersionBranch?: string },
+): PactForVerification[] {
+  return results.map(({ pact, consumer, versions, notices, pending, wip }) => {
+    const description = `Pact between ${consumer.name} (${versions.map((v) => v.number).join(", ")}) and ${providerName}`;
+    const href = `${hal.baseUrl}/pacts/provider/${encodeURIComponent(providerName)}/consumer/${encodeURIComponent(consumer.name)}/pact-version/${pact.contentSha}`;
+    // Selected pacts get one notice listing every matching criterion; each
+    // WIP notice already explains itself.
+    const reasons = wip
+      ? notices.map((text) => `The pact at ${href} is being verified because ${text}`)
+      : [
+          `The pact at ${href} is being verified because the pact content belongs to the consumer version${
+            versions.length === 1 ? "" : "s"
+          } matching the following criteri${notices.length === 1 ? "on" : "a"}:\n${notices
+            .map((text) => `    * ${text}`)
+            .join("\n")}`,
+        ];
+    return {
+      shortDescription: description,
+      verificationProperties: {
+        notices: [
+          ...reasons.map((text) => ({ text, when: "before_verification" })),
+          // WIP pacts are always pending, whether or not pending status was requested.
+          ...(options.includePendingStatus || wip
+            ? pendingNotices(providerName, options.providerVersionBranch, pending)
+            : []),
+        ],
+        pending,
+        ...(wip && { wip: true }),
+      },
+      _links: {
+        self: { href, name: description },
+      },
+    };
+  });
+}
+
 // Pacts for verification - used by provider verifiers
 // GET is deprecated but still used by some clients
 app.get("/provider/:provider/for-verification", async (c) => {
@@ -372,22 +471,7 @@ app.get("/provider/:provider/for-verification", async (c) => {
   const results = await broker.getPactsForVerification(providerName, selectors);
 
   const hal = new HalBuilder(getBaseUrl(c.req.raw));
-  const pacts: PactForVerification[] = results.map(({ pact, consumer, version, notices }) => ({
-    shortDescription: `Pact between ${consumer.name} (${version.number}) and ${providerName}`,
-    verificationProperties: {
-      notices: notices.map((text) => ({
-        text: `This pact is being verified because ${text}`,
-        when: "before_verification",
-      })),
-      pending: false,
-    },
-    _links: {
-      self: {
-        href: `${hal.baseUrl}/pacts/provider/${encodeURIComponent(providerName)}/consumer/${encodeURIComponent(consumer.name)}/pact-version/${pact.contentSha}`,
-        name: `Pact between ${consumer.name} (${version.number}) and ${providerName}`,
-      },
-    },
-  }));
+  const pacts = buildPactsForVerification(hal, providerName, results, {});
 
   return c.json(
     {
@@ -413,27 +497,29 @@ app.post("/provider/:provider/for-verification", async (c) => {
     // Empty body is valid - defaults to latest pacts
   }
 
+  if (
+    body.includeWipPactsSince !== undefined &&
+    (typeof body.includeWipPactsSince !== "string" ||
+      Number.isNaN(Date.parse(body.includeWipPactsSince)))
+  ) {
+    return c.json(
+      { error: "Bad Request", message: "includeWipPactsSince must be an ISO 8601 date" },
+      400,
+    );
+  }
+
   const broker = getBroker(c.env);
   const selectors = body.consumerVersionSelectors || [{ latest: true }];
-  const results = await broker.getPactsForVerification(providerName, selectors);
+  const options = {
+    includePendingStatus: body.includePendingStatus === true,
+    providerVersionBranch:
+      typeof body.providerVersionBranch === "string" ? body.providerVersionBranch : undefined,
+    includeWipPactsSince: body.includeWipPactsSince,
+  };
+  const results = await broker.getPactsForVerification(providerName, selectors, options);
 
   const hal = new HalBuilder(getBaseUrl(c.req.raw));
-  const pacts: PactForVerification[] = results.map(({ pact, consumer, version, notices }) => ({
-    shortDescription: `Pact between ${consumer.name} (${version.number}) and ${providerName}`,
-    verificationProperties: {
-      notices: notices.map((text) => ({
-        text: `This pact is being verified because ${text}`,
-        when: "before_verification",
-      })),
-      pending: false,
-    },
-    _links: {
-      self: {
-        href: `${hal.baseUrl}/pacts/provider/${encodeURIComponent(providerName)}/consumer/${encodeURIComponent(consumer.name)}/pact-version/${pact.contentSha}`,
-        name: `Pact between ${consumer.name} (${version.number}) and ${providerName}`,
-      },
-    },
-  }));
+  const pacts = buildPactsForVerification(hal, providerName, results, options);
 
   return c.json(
     {
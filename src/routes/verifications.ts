@@ -40,7 +40,7 @@ app.get(
     }
 
     // Verify the pact SHA matches
-    if (result.pact.contentSha !== pactSha) {
+    if (result.pactVersion.sha !== pactSha) {
       return c.json({ error: "Not Found", message: "Verification not found" }, 404);
     }
 
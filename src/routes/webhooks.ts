@@ -2,7 +2,7 @@ import { Hono } from "hono";
 import { z } from "zod";
 import type { Env, WebhookEvent, WebhookResponse, WebhookExecutionResponse } from "../types";
 import { HalBuilder, getBaseUrl } from "../services/hal";
-import { idSchema, parseId, validateParam } from "../lib/validation";
+import { idSchema, labelSchema, parseId, validateParam } from "../lib/validation";
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -34,6 +34,9 @@ const webhookCreateSchema = z.object({
     .regex(/^[a-zA-Z0-9._-]+$/)
     .nullable()
     .optional(),
+  // Scope to pacticipants carrying a label, alongside or instead of a name
+  consumerLabel: labelSchema.nullable().optional(),
+  providerLabel: labelSchema.nullable().optional(),
   enabled: z.boolean().optional(),
   description: z.string().max(500).optional(),
 });
@@ -50,6 +53,8 @@ function serialiseWebhook(
       method: string;
       headers: string | null;
       body: string | null;
+      consumerLabel: string | null;
+      providerLabel: string | null;
       enabled: boolean;
       description: string | null;
       createdAt: string;
@@ -76,6 +81,8 @@ function serialiseWebhook(
     body: webhook.body,
     consumer: consumer?.name ?? null,
     provider: provider?.name ?? null,
+    consumerLabel: webhook.consumerLabel,
+    providerLabel: webhook.providerLabel,
     enabled: webhook.enabled,
     description: webhook.description,
     createdAt: webhook.createdAt,
@@ -155,6 +162,8 @@ app.post("/", async (c) => {
     body: parsed.data.body ?? null,
     consumer: parsed.data.consumer ?? null,
     provider: parsed.data.provider ?? null,
+    consumerLabel: parsed.data.consumerLabel ?? null,
+    providerLabel: parsed.data.providerLabel ?? null,
     enabled: parsed.data.enabled,
     description: parsed.data.description ?? null,
   });
@@ -207,6 +216,12 @@ app.put("/:id", async (c) => {
     ...(parsed.data.body !== undefined && { body: parsed.data.body }),
     ...(parsed.data.consumer !== undefined && { consumer: parsed.data.consumer }),
     ...(parsed.data.provider !== undefined && { provider: parsed.data.provider }),
+    ...(parsed.data.consumerLabel !== undefined && {
+      consumerLabel: parsed.data.consumerLabel,
+    }),
+    ...(parsed.data.providerLabel !== undefined && {
+      providerLabel: parsed.data.providerLabel,
+    }),
     ...(parsed.data.enabled !== undefined && { enabled: parsed.data.enabled }),
     ...(parsed.data.description !== undefined && { description: parsed.data.description }),
   });
@@ -35,13 +35,45 @@ export class HalBuilder {
         true,
       ),
       "pb:environments": this.link("/environments", "Environments"),
+      "pb:environment": this.link("/environments/{uuid}", "Environment by UUID", true),
+      "pb:publish-contracts": this.link("/contracts/publish", "Publish contracts"),
     };
   }
 
-  pacticipant(name: string): HalLinks {
-    return {
+  pacticipant(name: string, labels: string[] = []): HalLinks {
+    const links: HalLinks = {
       self: this.link(`/pacticipants/${encodeURIComponent(name)}`),
       "pb:versions": this.link(`/pacticipants/${encodeURIComponent(name)}/versions`, "Versions"),
+      "pb:branches": this.link(`/pacticipants/${encodeURIComponent(name)}/branches`, "Branches"),
+    };
+    if (labels.length > 0) {
+      links["pb:labels"] = labels.map((label) => ({
+        ...this.label(name, label).self,
+        name: label,
+      }));
+    }
+    return links;
+  }
+
+  label(pacticipant: string, label: string): HalLinks {
+    const p = encodeURIComponent(pacticipant);
+    return {
+      self: this.link(`/pacticipants/${p}/labels/${encodeURIComponent(label)}`),
+      "pb:pacticipant": this.link(`/pacticipants/${p}`),
+    };
+  }
+
+  branch(pacticipant: string, branch: string): HalLinks {
+    const p = encodeURIComponent(pacticipant);
+    const b = encodeURIComponent(branch);
+    return {
+      self: this.link(`/pacticipants/${p}/branches/${b}`),
+      "pb:versions": this.link(`/pacticipants/${p}/branches/${b}/versions`, "Branch versions"),
+      "pb:latest-version": this.link(
+        `/pacticipants/${p}/branches/${b}/latest-version`,
+        "Latest version",
+      ),
+      "pb:pacticipant": this.link(`/pacticipants/${p}`),
     };
   }
 
@@ -52,6 +84,22 @@ export class HalBuilder {
       self: this.link(`/pacticipants/${p}/versions/${v}`),
       "pb:pacticipant": this.link(`/pacticipants/${p}`),
       "pb:tags": this.link(`/pacticipants/${p}/versions/${v}/tags`, "Tags"),
+      "pb:branch-version": this.link(
+        `/pacticipants/${p}/branches/{branch}/versions/${v}`,
+        "Put this version on a branch",
+        true,
+      ),
+    };
+  }
+
+  branchVersion(pacticipant: string, branch: string, version: string): HalLinks {
+    const p = encodeURIComponent(pacticipant);
+    const b = encodeURIComponent(branch);
+    const v = encodeURIComponent(version);
+    return {
+      self: this.link(`/pacticipants/${p}/branches/${b}/versions/${v}`),
+      "pb:branch": this.link(`/pacticipants/${p}/branches/${b}`),
+      "pb:version": this.link(`/pacticipants/${p}/versions/${v}`),
     };
   }
 
@@ -82,6 +130,35 @@ export class HalBuilder {
     };
   }
 
+  publishContracts(
+    pacticipant: string,
+    version: string,
+    tagNames: string[],
+    providers: string[],
+  ): HalLinks {
+    const p = encodeURIComponent(pacticipant);
+    const v = encodeURIComponent(version);
+    return {
+      self: this.link("/contracts/publish"),
+      "pb:pacticipant": { ...this.link(`/pacticipants/${p}`, "Pacticipant"), name: pacticipant },
+      "pb:pacticipant-version": {
+        ...this.link(`/pacticipants/${p}/versions/${v}`, "Pacticipant version"),
+        name: version,
+      },
+      "pb:pacticipant-version-tags": tagNames.map((t) => ({
+        ...this.link(`/pacticipants/${p}/versions/${v}/tags/${encodeURIComponent(t)}`, "Tag"),
+        name: t,
+      })),
+      "pb:pacts": providers.map((provider) => ({
+        ...this.link(
+          `/pacts/provider/${encodeURIComponent(provider)}/consumer/${p}/version/${v}`,
+          "Pact",
+        ),
+        name: `Pact between ${pacticipant} (${version}) and ${provider}`,
+      })),
+    };
+  }
+
   verification(
     provider: string,
     consumer: string,
@@ -110,19 +187,51 @@ export class HalBuilder {
     };
   }
 
-  environment(name: string): HalLinks {
-    const n = encodeURIComponent(name);
+  canIDeployBatch(): HalLinks {
+    return {
+      self: this.link("/can-i-deploy/batch"),
+    };
+  }
+
+  environment(uuid: string): HalLinks {
+    const n = encodeURIComponent(uuid);
     return {
       self: this.link(`/environments/${n}`),
+      "pb:deployments": this.link(`/environments/${n}/deployments`),
+      "pb:currently-deployed-deployed-versions": this.link(
+        `/environments/${n}/deployed-versions/currently-deployed`,
+      ),
+      "pb:currently-supported-released-versions": this.link(
+        `/environments/${n}/released-versions/currently-supported`,
+      ),
+    };
+  }
+
+  deployment(
+    pacticipant: string,
+    version: string,
+    environment: string,
+    applicationInstance?: string | null,
+  ): HalLinks {
+    const p = encodeURIComponent(pacticipant);
+    const v = encodeURIComponent(version);
+    const e = encodeURIComponent(environment);
+    const instance = applicationInstance
+      ? `?applicationInstance=${encodeURIComponent(applicationInstance)}`
+      : "";
+    return {
+      self: this.link(`/pacticipants/${p}/versions/${v}/deployed/${e}${instance}`),
+      "pb:version": this.link(`/pacticipants/${p}/versions/${v}`),
+      "pb:environment": this.link(`/environments/${e}`),
     };
   }
 
-  deployment(pacticipant: string, version: string, environment: string): HalLinks {
+  release(pacticipant: string, version: string, environment: string): HalLinks {
     const p = encodeURIComponent(pacticipant);
     const v = encodeURIComponent(version);
     const e = encodeURIComponent(environment);
     return {
-      self: this.link(`/pacticipants/${p}/versions/${v}/deployed/${e}`),
+      self: this.link(`/pacticipants/${p}/versions/${v}/released/${e}`),
       "pb:version": this.link(`/pacticipants/${p}/versions/${v}`),
       "pb:environment": this.link(`/environments/${e}`),
     };
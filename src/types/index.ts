@@ -7,6 +7,16 @@ export interface Env {
   ALLOW_PUBLIC_READ: string;
   // "false" disables public badge access; any other value keeps them public.
   PUBLIC_BADGES?: string;
+  // "true" lets every consumer republish a version with changed pact content;
+  // a comma-separated list of pacticipant names allows it for those only.
+  // Unset/"false" rejects such republishes with 409 Conflict.
+  ALLOW_PACT_OVERWRITE?: string;
+  // Extra comma-separated dot paths under a pact's `metadata` to leave out of
+  // its content SHA, on top of the built-in library-version keys.
+  PACT_SHA_IGNORED_METADATA?: string;
+  // Default /can-i-deploy status mapping when the request has no `httpStatus`:
+  // "by-result" answers 409/425 when not deployable; unset/"always-200" keeps 200.
+  CAN_I_DEPLOY_HTTP_STATUS?: string;
   // Comma-separated list of allowed CORS origins. Empty/unset = permissive (legacy).
   CORS_ALLOWED_ORIGINS?: string;
   // Workers Rate Limiting API bindings. Both are configured in
@@ -30,6 +40,7 @@ export type HonoEnv = { Bindings: Env; Variables: AppVariables };
 export interface HalLink {
   href: string;
   title?: string;
+  name?: string;
   templated?: boolean;
 }
 
@@ -43,11 +54,21 @@ export interface HalResource {
   _links: HalLinks;
 }
 
-// Pact content structure (simplified)
+// Interaction kinds introduced by Pact Specification v4, carried in each
+// interaction's `type`. Earlier specs have no `type`: `interactions` are
+// HTTP and v3 message pacts list their messages under `messages`.
+export type PactInteractionType =
+  | "Synchronous/HTTP"
+  | "Asynchronous/Messages"
+  | "Synchronous/Messages";
+
+// Pact content structure (simplified). A pact carries `interactions`
+// (v1-v4), `messages` (v3 message pacts), or both.
 export interface PactContent {
   consumer: { name: string };
   provider: { name: string };
-  interactions: unknown[];
+  interactions?: unknown[];
+  messages?: unknown[];
   metadata?: {
     pactSpecification?: { version: string };
     [key: string]: unknown;
@@ -58,17 +79,70 @@ export interface PactContent {
 export interface PublishPactRequest {
   consumer: { name: string };
   provider: { name: string };
-  interactions: unknown[];
+  interactions?: unknown[];
+  messages?: unknown[];
   metadata?: Record<string, unknown>;
 }
 
+// Human-readable messages returned alongside a response. pact-broker-client
+// prints these verbatim, colouring them by type.
+export interface Notice {
+  type: "debug" | "info" | "success" | "warning" | "danger" | "prompt";
+  text: string;
+}
+
+export interface PublishContractsRequest {
+  pacticipantName: string;
+  pacticipantVersionNumber: string;
+  branch?: string;
+  tags?: string[];
+  buildUrl?: string;
+  contracts: Array<{
+    consumerName: string;
+    providerName: string;
+    specification: "pact";
+    contentType: string;
+    content: string; // base64-encoded pact JSON
+    onConflict?: "overwrite";
+  }>;
+}
+
+export interface PublishContractsResponse extends HalResource {
+  notices: Notice[];
+  _embedded: {
+    pacticipant: Pick<PacticipantResponse, "name" | "createdAt" | "_links">;
+    version: VersionResponse;
+  };
+}
+
+export interface PactDiffSummary {
+  interactionsAdded: string[];
+  interactionsRemoved: string[];
+  interactionsChanged: string[];
+  metadataChanged: boolean;
+}
+
+// A republish of an existing consumer version whose content differs from
+// what is stored. Rejected with 409 unless ALLOW_PACT_OVERWRITE permits it.
+export interface PactConflict {
+  consumer: string;
+  provider: string;
+  consumerVersion: string;
+  existingSha: string;
+  newSha: string;
+  diff: PactDiffSummary;
+}
+
 export interface PactResponse extends HalResource {
   consumer: { name: string };
   provider: { name: string };
   consumerVersion: string;
   contentSha: string;
   createdAt: string;
-  interactions: unknown[];
+  // Declared in the pact's metadata, or inferred from its shape when absent.
+  specificationVersion: string;
+  interactions?: unknown[];
+  messages?: unknown[];
   metadata?: Record<string, unknown>;
 }
 
@@ -90,16 +164,61 @@ export interface MatrixRow {
   provider: { name: string; version: string | null };
   pactVersion: { sha: string };
   verificationResult?: {
+    id: number;
     success: boolean;
     verifiedAt: string;
+    // The pact had not yet been verified successfully on the provider's branch.
+    pending: boolean;
   } | null;
+  // Involves a pacticipant the can-i-deploy request asked to ignore
+  ignored?: boolean;
+}
+
+// An `ignore[]` entry of a can-i-deploy request; without a version, every
+// version of the pacticipant is ignored.
+export interface CanIDeployIgnore {
+  pacticipant: string;
+  version?: string;
+}
+
+// One `q[]` entry of a matrix query. With only `pacticipant`, every version
+// matches; `latest` narrows a tag or branch (or all versions) to the newest.
+export interface MatrixSelector {
+  // Exactly one of `pacticipant` or `label`; a label selects every
+  // pacticipant carrying it
+  pacticipant?: string;
+  label?: string;
+  version?: string;
+  latest?: boolean;
+  tag?: string;
+  branch?: string;
+  environment?: string;
+}
+
+export interface MatrixQuery {
+  selectors: MatrixSelector[];
+  // Keep only the latest row per consumer version and provider (cvp), or per
+  // consumer version and provider version (cvpv)
+  latestby?: "cvp" | "cvpv";
+  limit?: number;
+  // Only rows whose verification succeeded or failed, as listed
+  success?: boolean[];
+  // Counterpart versions for a single-selector query: the latest (tagged)
+  // version, or the versions deployed to an environment
+  latest?: boolean;
+  tag?: string;
+  environment?: string;
 }
 
 export interface MatrixResponse extends HalResource {
   summary: {
     deployable: boolean;
     reason: string;
+    success: number;
+    failed: number;
+    unknown: number;
   };
+  notices: Notice[];
   matrix: MatrixRow[];
 }
 
@@ -107,22 +226,99 @@ export interface CanIDeployResponse extends HalResource {
   summary: {
     deployable: boolean;
     reason: string;
+    success: number;
+    failed: number;
+    unknown: number;
+    // Rows left out of the decision by `ignore[]`
+    ignored: number;
+    // Set when `dryRun=true`: `deployable` is forced true, `reason` is the real verdict
+    dryRun?: boolean;
   };
   matrix: MatrixRow[];
 }
 
+export interface CanIDeployBatchResponse extends HalResource {
+  summary: {
+    deployable: boolean;
+    reason: string;
+  };
+  // One entry per pact the batch depends on, with its own verdict
+  pairs: Array<MatrixRow & { deployable: boolean; reason: string }>;
+}
+
+export interface CanIDeployDecisionResponse {
+  id: number;
+  pacticipant: string;
+  version: string;
+  to: string | null;
+  environment: string | null;
+  // Every version judged together, for batch evaluations
+  batch: Array<{ pacticipant: string; version: string }> | null;
+  deployable: boolean;
+  reason: string;
+  matrix: Array<MatrixRow & { _links: HalLinks }>;
+  caller: string | null;
+  requestId: string | null;
+  decidedAt: string;
+}
+
+export interface CanIDeployDecisionsResponse extends HalResource {
+  decisions: CanIDeployDecisionResponse[];
+  page: { number: number; size: number; totalElements: number; totalPages: number };
+}
+
 export interface PacticipantResponse extends HalResource {
+  name: string;
+  displayName: string | null;
+  mainBranch: string | null;
+  repositoryUrl: string | null;
+  repositoryName: string | null;
+  repositoryNamespace: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+export interface BranchResponse extends HalResource {
+  name: string;
+  createdAt: string;
+}
+
+export interface BranchVersionResponse extends HalResource {
+  branch: string;
+  version: string;
+  createdAt: string;
+}
+
+export interface LabelResponse extends HalResource {
   name: string;
   createdAt: string;
 }
 
+// Editable pacticipant fields; `null` clears a field.
+export interface PacticipantUpdate {
+  displayName?: string | null;
+  mainBranch?: string | null;
+  repositoryUrl?: string | null;
+  repositoryName?: string | null;
+  repositoryNamespace?: string | null;
+  metadata?: Record<string, unknown> | null;
+}
+
 export interface VersionResponse extends HalResource {
   number: string;
   branch?: string | null;
   buildUrl?: string | null;
+  metadata?: Record<string, unknown> | null;
   createdAt: string;
 }
 
+// Editable version fields; `null` clears a field.
+export interface VersionUpdate {
+  branch?: string | null;
+  buildUrl?: string | null;
+  metadata?: Record<string, unknown> | null;
+}
+
 export interface TagResponse extends HalResource {
   name: string;
   createdAt: string;
@@ -141,33 +337,83 @@ export interface ErrorResponse {
 }
 
 // Environment types
+export interface EnvironmentContact {
+  name: string;
+  details?: { emailAddress?: string } & Record<string, unknown>;
+}
+
 export interface EnvironmentResponse extends HalResource {
+  uuid: string;
   name: string;
   displayName?: string | null;
   production: boolean;
+  contacts: EnvironmentContact[];
   createdAt: string;
 }
 
 export interface EnvironmentRequest {
-  displayName?: string;
+  name?: string;
+  displayName?: string | null;
   production?: boolean;
+  contacts?: EnvironmentContact[] | null;
 }
 
 // Deployment types
 export interface DeploymentResponse extends HalResource {
   environment: string;
+  applicationInstance: string | null;
   deployedAt: string;
   undeployedAt?: string | null;
 }
 
+// One entry in an environment's deployment timeline
+export interface EnvironmentDeploymentResponse extends DeploymentResponse {
+  pacticipant: string;
+  version: string;
+  currentlyDeployed: boolean;
+}
+
+export interface ReleaseResponse extends HalResource {
+  environment: string;
+  releasedAt: string;
+  supportEndedAt: string | null;
+  currentlySupported: boolean;
+}
+
+// A version currently deployed to, or still supported in, an environment
+export interface EnvironmentVersionResponse extends HalResource {
+  pacticipant: string;
+  version: string;
+  branch: string | null;
+  buildUrl: string | null;
+  environment: string;
+}
+
+export interface CurrentlyDeployedVersionResponse extends EnvironmentVersionResponse {
+  applicationInstance: string | null;
+  deployedAt: string;
+}
+
+export interface CurrentlySupportedVersionResponse extends EnvironmentVersionResponse {
+  releasedAt: string;
+}
+
 // Consumer version selectors for pacts-for-verification
 export interface ConsumerVersionSelector {
   latest?: boolean;
   tag?: string;
+  // Used with `tag` and `latest: true` when a consumer has no version with the tag
+  fallbackTag?: string;
   consumer?: string;
   branch?: string;
+  // The consumer branch named by the request's providerVersionBranch
+  matchingBranch?: boolean;
+  // Used with a branch selector when a consumer has no version on that branch
+  fallbackBranch?: string;
   mainBranch?: boolean;
   deployed?: boolean;
+  released?: boolean;
+  deployedOrReleased?: boolean;
   environment?: string;
 }
 
@@ -175,6 +421,8 @@ export interface PactsForVerificationRequest {
   consumerVersionSelectors?: ConsumerVersionSelector[];
   providerVersionBranch?: string;
   includePendingStatus?: boolean;
+  // ISO date; also return work-in-progress pacts published since then
+  includeWipPactsSince?: string;
 }
 
 export interface PactForVerification {
@@ -182,6 +430,7 @@ export interface PactForVerification {
   verificationProperties: {
     notices: Array<{ text: string; when: string }>;
     pending: boolean;
+    wip?: boolean;
   };
   _links: {
     self: { href: string; name: string };
@@ -205,6 +454,8 @@ export interface WebhookRequest {
   body?: string | null;
   consumer?: string | null;
   provider?: string | null;
+  consumerLabel?: string | null;
+  providerLabel?: string | null;
   enabled?: boolean;
   description?: string;
 }
@@ -218,6 +469,8 @@ export interface WebhookResponse extends HalResource {
   body: string | null;
   consumer: string | null;
   provider: string | null;
+  consumerLabel: string | null;
+  providerLabel: string | null;
   enabled: boolean;
   description: string | null;
   createdAt: string;
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { reqJson, authHeaders, publishPact, publishVerification } from "./helpers";
+
+describe("POST /admin/recompute-content-shas", () => {
+  it("rescans stored pacts and leaves canonical SHAs and verifications in place", async () => {
+    const { body } = await publishPact("adm-c1", "adm-p1", "1.0.0");
+    const sha = (body as { contentSha: string }).contentSha;
+    await publishVerification("adm-p1", "adm-c1", sha, true);
+
+    const { status, body: result } = await reqJson("/admin/recompute-content-shas", {
+      method: "POST",
+      headers: authHeaders(),
+    });
+    expect(status).toBe(200);
+    expect(result).toMatchObject({
+      updated: 0,
+      merged: 0,
+      skipped: 0,
+      verificationsRepointed: 0,
+    });
+    expect((result as { scanned: number }).scanned).toBeGreaterThanOrEqual(1);
+
+    const pact = await reqJson(`/pacts/provider/adm-p1/consumer/adm-c1/pact-version/${sha}`, {
+      headers: authHeaders(),
+    });
+    expect(pact.status).toBe(200);
+  });
+
+  it("requires a bearer token", async () => {
+    const { status } = await reqJson("/admin/recompute-content-shas", { method: "POST" });
+    expect(status).toBe(401);
+  });
+});
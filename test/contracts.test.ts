@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import { reqJson, authHeaders, samplePact } from "./helpers";
+
+function encode(pact: Record<string, unknown>): string {
+  return btoa(JSON.stringify(pact));
+}
+
+async function publishContracts(
+  payload: Record<string, unknown>,
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  const { status, body } = await reqJson("/contracts/publish", {
+    method: "POST",
+    headers: authHeaders("test-token-0123456789abcdef", {
+      "Content-Type": "application/json",
+    }),
+    body: JSON.stringify(payload),
+  });
+  return { status, body: body as Record<string, unknown> };
+}
+
+function contract(consumer: string, provider: string, description?: string) {
+  return {
+    consumerName: consumer,
+    providerName: provider,
+    specification: "pact",
+    contentType: "application/json",
+    content: encode(samplePact({ consumer, provider, description })),
+  };
+}
+
+describe("POST /contracts/publish", () => {
+  it("publishes every contract with branch, tags and build URL", async () => {
+    const { status, body } = await publishContracts({
+      pacticipantName: "cp-c1",
+      pacticipantVersionNumber: "1.0.0",
+      branch: "main",
+      tags: ["dev", "test"],
+      buildUrl: "https://ci.example/build/42",
+      contracts: [contract("cp-c1", "cp-p1"), contract("cp-c1", "cp-p2")],
+    });
+    expect(status).toBe(200);
+
+    const notices = body.notices as Array<{ type: string; text: string }>;
+    expect(notices[0]).toEqual({
+      type: "success",
+      text: "Created cp-c1 version 1.0.0 with branch main and tags dev, test",
+    });
+    expect(notices.filter((n) => n.text.startsWith("Pact successfully published"))).toHaveLength(2);
+
+    const links = body._links as Record<string, { href: string } | Array<{ href: string }>>;
+    expect((links["pb:pacticipant-version"] as { href: string }).href).toMatch(
+      /\/pacticipants\/cp-c1\/versions\/1\.0\.0$/,
+    );
+    expect(links["pb:pacts"]).toHaveLength(2);
+    expect(links["pb:pacticipant-version-tags"]).toHaveLength(2);
+
+    const version = await reqJson("/pacticipants/cp-c1/versions/1.0.0", {
+      headers: authHeaders(),
+    });
+    expect(version.body).toMatchObject({
+      branch: "main",
+      buildUrl: "https://ci.example/build/42",
+    });
+
+    const tags = await reqJson("/pacticipants/cp-c1/versions/1.0.0/tags", {
+      headers: authHeaders(),
+    });
+    const tagNames = (tags.body as { _embedded: { tags: Array<{ name: string }> } })._embedded.tags
+      .map((t) => t.name)
+      .sort();
+    expect(tagNames).toEqual(["dev", "test"]);
+
+    const pact = await reqJson("/pacts/provider/cp-p2/consumer/cp-c1/version/1.0.0", {
+      headers: authHeaders(),
+    });
+    expect(pact.status).toBe(200);
+  });
+
+  it("reports identical re-publishes with an info notice", async () => {
+    const payload = {
+      pacticipantName: "cp-c2",
+      pacticipantVersionNumber: "1.0.0",
+      contracts: [contract("cp-c2", "cp-p3")],
+    };
+    await publishContracts(payload);
+    const { status, body } = await publishContracts(payload);
+    expect(status).toBe(200);
+    const notices = body.notices as Array<{ type: string; text: string }>;
+    expect(notices).toContainEqual({
+      type: "info",
+      text: "Pact with identical content already published for cp-c2 version 1.0.0 and provider cp-p3.",
+    });
+  });
+
+  it("rejects a contract whose consumer does not match pacticipantName", async () => {
+    const { status, body } = await publishContracts({
+      pacticipantName: "cp-c3",
+      pacticipantVersionNumber: "1.0.0",
+      contracts: [contract("someone-else", "cp-p4")],
+    });
+    expect(status).toBe(400);
+    expect((body as { message: string }).message).toMatch(/consumerName/);
+  });
+
+  it("rejects content that is not base64-encoded JSON", async () => {
+    const { status, body } = await publishContracts({
+      pacticipantName: "cp-c4",
+      pacticipantVersionNumber: "1.0.0",
+      contracts: [{ ...contract("cp-c4", "cp-p5"), content: "not base64 json" }],
+    });
+    expect(status).toBe(400);
+    expect((body as { message: string }).message).toMatch(/base64/);
+  });
+
+  it("writes nothing when one contract in the batch is invalid", async () => {
+    const { status } = await publishContracts({
+      pacticipantName: "cp-c5",
+      pacticipantVersionNumber: "1.0.0",
+      contracts: [
+        contract("cp-c5", "cp-p6"),
+        { ...contract("cp-c5", "cp-p7"), content: encode({ consumer: { name: "cp-c5" } }) },
+      ],
+    });
+    expect(status).toBe(400);
+    const version = await reqJson("/pacticipants/cp-c5/versions/1.0.0", {
+      headers: authHeaders(),
+    });
+    expect(version.status).toBe(404);
+  });
+
+  it("rejects the whole batch with 409 when any contract's content changed", async () => {
+    await publishContracts({
+      pacticipantName: "cp-c6",
+      pacticipantVersionNumber: "1.0.0",
+      contracts: [contract("cp-c6", "cp-p8", "one")],
+    });
+    const { status, body } = await publishContracts({
+      pacticipantName: "cp-c6",
+      pacticipantVersionNumber: "1.0.0",
+      contracts: [contract("cp-c6", "cp-p9"), contract("cp-c6", "cp-p8", "two")],
+    });
+    expect(status).toBe(409);
+    expect(body).toMatchObject({
+      error: "Conflict",
+      conflicts: [{ provider: "cp-p8", diff: { interactionsAdded: ["two"] } }],
+    });
+    const untouched = await reqJson("/pacts/provider/cp-p9/consumer/cp-c6/version/1.0.0", {
+      headers: authHeaders(),
+    });
+    expect(untouched.status).toBe(404);
+  });
+
+  it("is advertised in the index as pb:publish-contracts", async () => {
+    const { body } = await reqJson("/", { headers: authHeaders() });
+    const links = (body as { _links: Record<string, { href: string }> })._links;
+    expect(links["pb:publish-contracts"]?.href).toBe("https://test-host/contracts/publish");
+  });
+});
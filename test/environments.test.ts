@@ -0,0 +1,469 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import {
+  req,
+  reqJson,
+  authHeaders,
+  publishPact,
+  publishVerification,
+  ensureEnvironment,
+  recordDeployment,
+  recordRelease,
+} from "./helpers";
+
+type Timeline = {
+  _embedded: {
+    deployments: Array<{ pacticipant: string; version: string; currentlyDeployed: boolean }>;
+  };
+};
+
+async function timeline(query = ""): Promise<Array<[string, boolean]>> {
+  const { body } = await reqJson(`/environments/dh-env/deployments${query}`, {
+    headers: authHeaders(),
+  });
+  return (body as Timeline)._embedded.deployments.map((d) => [
+    `${d.pacticipant}@${d.version}`,
+    d.currentlyDeployed,
+  ]);
+}
+
+describe("deployment history", () => {
+  beforeAll(async () => {
+    await ensureEnvironment("dh-env");
+    await publishPact("dh-a", "dh-p", "1.0.0");
+    await publishPact("dh-a", "dh-p", "2.0.0", { description: "two" });
+    await publishPact("dh-b", "dh-p", "1.0.0");
+  });
+
+  it("undeploys the previously deployed version of the pacticipant", async () => {
+    await recordDeployment("dh-a", "1.0.0", "dh-env");
+    await recordDeployment("dh-b", "1.0.0", "dh-env");
+    expect(await recordDeployment("dh-a", "2.0.0", "dh-env")).toBe(201);
+
+    expect(await timeline()).toEqual([
+      ["dh-a@2.0.0", true],
+      ["dh-b@1.0.0", true],
+      ["dh-a@1.0.0", false],
+    ]);
+  });
+
+  it("does not add an entry when the deployed version is recorded again", async () => {
+    await recordDeployment("dh-a", "1.0.0", "dh-env");
+    await recordDeployment("dh-a", "2.0.0", "dh-env");
+    await recordDeployment("dh-a", "2.0.0", "dh-env");
+    expect(await timeline("?pacticipant=dh-a")).toEqual([
+      ["dh-a@2.0.0", true],
+      ["dh-a@1.0.0", false],
+    ]);
+  });
+
+  it("allows a version to be redeployed after it was undeployed", async () => {
+    await recordDeployment("dh-b", "1.0.0", "dh-env");
+    const undeploy = await req("/pacticipants/dh-b/versions/1.0.0/deployed/dh-env", {
+      method: "DELETE",
+      headers: authHeaders(),
+    });
+    expect(undeploy.status).toBe(204);
+    expect(await recordDeployment("dh-b", "1.0.0", "dh-env")).toBe(201);
+
+    expect(await timeline("?pacticipant=dh-b")).toEqual([
+      ["dh-b@1.0.0", true],
+      ["dh-b@1.0.0", false],
+    ]);
+  });
+
+  it("answers 404 for an unknown environment", async () => {
+    const { status } = await reqJson("/environments/dh-nowhere/deployments", {
+      headers: authHeaders(),
+    });
+    expect(status).toBe(404);
+  });
+});
+
+type Decision = { summary: { deployable: boolean; reason: string } };
+
+async function instanceTimeline(): Promise<Array<[string, string | null, boolean]>> {
+  const { body } = await reqJson("/environments/ai-env/deployments?pacticipant=ai-c", {
+    headers: authHeaders(),
+  });
+  const deployments = (
+    body as {
+      _embedded: {
+        deployments: Array<{
+          version: string;
+          applicationInstance: string | null;
+          currentlyDeployed: boolean;
+        }>;
+      };
+    }
+  )._embedded.deployments;
+  return deployments.map((d) => [d.version, d.applicationInstance, d.currentlyDeployed]);
+}
+
+describe("application instances", () => {
+  beforeAll(async () => {
+    await ensureEnvironment("ai-env");
+    await publishPact("ai-c", "ai-p", "1.0.0");
+    const { body } = await publishPact("ai-c", "ai-p", "2.0.0", { description: "two" });
+    await publishVerification("ai-p", "ai-c", body.contentSha as string, true, "p-1");
+  });
+
+  it("replaces the deployed version per instance only", async () => {
+    await recordDeployment("ai-c", "1.0.0", "ai-env", "blue");
+    await recordDeployment("ai-c", "1.0.0", "ai-env", "green");
+    expect(await recordDeployment("ai-c", "2.0.0", "ai-env", "green")).toBe(201);
+
+    expect(await instanceTimeline()).toEqual([
+      ["2.0.0", "green", true],
+      ["1.0.0", "green", false],
+      ["1.0.0", "blue", true],
+    ]);
+  });
+
+  it("undeploys one instance and leaves the others in place", async () => {
+    await recordDeployment("ai-c", "1.0.0", "ai-env", "blue");
+    await recordDeployment("ai-c", "1.0.0", "ai-env", "green");
+    const undeploy = await req(
+      "/pacticipants/ai-c/versions/1.0.0/deployed/ai-env?applicationInstance=blue",
+      { method: "DELETE", headers: authHeaders() },
+    );
+    expect(undeploy.status).toBe(204);
+
+    const { body } = await reqJson("/pacticipants/ai-c/versions/1.0.0/deployed", {
+      headers: authHeaders(),
+    });
+    const deployments = (
+      body as {
+        _embedded: {
+          deployments: Array<{
+            applicationInstance: string | null;
+            undeployedAt: string | null;
+            _links: { self: { href: string } };
+          }>;
+        };
+      }
+    )._embedded.deployments;
+    const green = deployments.find((d) => d.applicationInstance === "green");
+    expect(green?.undeployedAt).toBeNull();
+    expect(green?._links.self.href).toMatch(/\/deployed\/ai-env\?applicationInstance=green$/);
+    expect(deployments.find((d) => d.applicationInstance === "blue")?.undeployedAt).not.toBeNull();
+  });
+
+  it("keeps a deployment without an instance separate from named instances", async () => {
+    await recordDeployment("ai-c", "1.0.0", "ai-env", "blue");
+    await recordDeployment("ai-c", "2.0.0", "ai-env");
+    const undeploy = await req("/pacticipants/ai-c/versions/1.0.0/deployed/ai-env", {
+      method: "DELETE",
+      headers: authHeaders(),
+    });
+    expect(undeploy.status).toBe(404);
+    expect(await instanceTimeline()).toEqual([
+      ["2.0.0", null, true],
+      ["1.0.0", "blue", true],
+    ]);
+  });
+
+  it("checks can-i-deploy against every deployed instance", async () => {
+    await recordDeployment("ai-c", "1.0.0", "ai-env", "blue");
+    await recordDeployment("ai-c", "2.0.0", "ai-env", "green");
+    const { body } = await reqJson(
+      "/can-i-deploy?pacticipant=ai-p&version=p-1&environment=ai-env",
+      { headers: authHeaders() },
+    );
+    const decision = body as Decision;
+    expect(decision.summary.deployable).toBe(false);
+    expect(decision.summary.reason).toContain("currently deployed to ai-env (1.0.0)");
+  });
+
+  it("rejects an invalid application instance", async () => {
+    const { status } = await reqJson(
+      "/pacticipants/ai-c/versions/1.0.0/deployed/ai-env?applicationInstance=not%20valid",
+      { method: "PUT", headers: authHeaders() },
+    );
+    expect(status).toBe(400);
+  });
+});
+
+type EnvironmentVersions = {
+  _embedded: Record<
+    string,
+    Array<{ pacticipant: string; version: string; branch: string | null; buildUrl: string | null }>
+  >;
+};
+
+describe("currently deployed and supported versions", () => {
+  beforeAll(async () => {
+    await ensureEnvironment("cur-env");
+    await publishPact("cur-a", "cur-p", "1.0.0", { branch: "main" });
+    await publishPact("cur-a", "cur-p", "2.0.0", { branch: "main", description: "two" });
+    await publishPact("cur-b", "cur-p", "1.0.0");
+  });
+
+  it("lists the versions currently deployed", async () => {
+    await recordDeployment("cur-a", "1.0.0", "cur-env");
+    await recordDeployment("cur-a", "2.0.0", "cur-env");
+    await recordDeployment("cur-b", "1.0.0", "cur-env", "eu");
+
+    const { status, body } = await reqJson(
+      "/environments/cur-env/deployed-versions/currently-deployed",
+      { headers: authHeaders() },
+    );
+    expect(status).toBe(200);
+    expect((body as EnvironmentVersions)._embedded.deployedVersions).toEqual([
+      expect.objectContaining({ pacticipant: "cur-a", version: "2.0.0", branch: "main" }),
+      expect.objectContaining({
+        pacticipant: "cur-b",
+        version: "1.0.0",
+        applicationInstance: "eu",
+      }),
+    ]);
+  });
+
+  it("filters the currently deployed versions by pacticipant", async () => {
+    await recordDeployment("cur-a", "1.0.0", "cur-env");
+    await recordDeployment("cur-b", "1.0.0", "cur-env");
+
+    const { body } = await reqJson(
+      "/environments/cur-env/deployed-versions/currently-deployed?pacticipant=cur-b",
+      { headers: authHeaders() },
+    );
+    const deployed = (body as EnvironmentVersions)._embedded.deployedVersions;
+    expect(deployed?.map((d) => `${d.pacticipant}@${d.version}`)).toEqual(["cur-b@1.0.0"]);
+  });
+
+  it("lists the released versions still supported", async () => {
+    await recordRelease("cur-a", "1.0.0", "cur-env");
+    await recordRelease("cur-a", "2.0.0", "cur-env");
+    await req("/pacticipants/cur-a/versions/1.0.0/released/cur-env", {
+      method: "DELETE",
+      headers: authHeaders(),
+    });
+
+    const { status, body } = await reqJson(
+      "/environments/cur-env/released-versions/currently-supported?pacticipant=cur-a",
+      { headers: authHeaders() },
+    );
+    expect(status).toBe(200);
+    const supported = (body as EnvironmentVersions)._embedded.releasedVersions;
+    expect(supported?.map((r) => `${r.pacticipant}@${r.version}`)).toEqual(["cur-a@2.0.0"]);
+  });
+
+  it("is linked from the environment by UUID", async () => {
+    const { body } = await reqJson("/environments/cur-env", { headers: authHeaders() });
+    const { uuid, _links: links } = body as {
+      uuid: string;
+      _links: Record<string, { href: string }>;
+    };
+    expect(links.self?.href).toBe(`https://test-host/environments/${uuid}`);
+    expect(links["pb:currently-deployed-deployed-versions"]?.href).toBe(
+      `https://test-host/environments/${uuid}/deployed-versions/currently-deployed`,
+    );
+  });
+
+  it("resolves every sub-resource by UUID", async () => {
+    await recordDeployment("cur-a", "2.0.0", "cur-env");
+    await recordRelease("cur-a", "2.0.0", "cur-env");
+    const { body } = await reqJson("/environments/cur-env", { headers: authHeaders() });
+    const uuid = (body as { uuid: string }).uuid;
+
+    for (const [path, key] of [
+      ["deployments", "deployments"],
+      ["deployed-versions/currently-deployed", "deployedVersions"],
+      ["released-versions/currently-supported", "releasedVersions"],
+    ] as const) {
+      const { status, body: list } = await reqJson(
+        `/environments/${uuid}/${path}?pacticipant=cur-a`,
+        { headers: authHeaders() },
+      );
+      expect(status).toBe(200);
+      const typed = list as {
+        _links: { self: { href: string } };
+        _embedded: Record<string, Array<{ environment: string }>>;
+      };
+      expect(typed._links.self.href).toBe(`https://test-host/environments/${uuid}/${path}`);
+      expect(typed._embedded[key]?.[0]?.environment).toBe("cur-env");
+    }
+  });
+
+  it("answers 404 for an unknown environment", async () => {
+    const { status } = await reqJson(
+      "/environments/cur-nowhere/released-versions/currently-supported",
+      { headers: authHeaders() },
+    );
+    expect(status).toBe(404);
+  });
+});
+
+type EnvironmentBody = {
+  uuid: string;
+  name: string;
+  displayName: string | null;
+  production: boolean;
+  contacts: Array<{ name: string; details?: { emailAddress?: string } }>;
+};
+
+async function createEnvironment(name: string, body: Record<string, unknown> = {}) {
+  const { body: created } = await reqJson(`/environments/${name}`, {
+    method: "PUT",
+    headers: authHeaders(undefined, { "Content-Type": "application/json" }),
+    body: JSON.stringify(body),
+  });
+  return created as EnvironmentBody;
+}
+
+async function putEnvironment(id: string, body: Record<string, unknown>) {
+  return reqJson(`/environments/${id}`, {
+    method: "PUT",
+    headers: authHeaders(undefined, { "Content-Type": "application/json" }),
+    body: JSON.stringify(body),
+  });
+}
+
+describe("environment lifecycle", () => {
+  it("assigns a UUID that the environment can be fetched by", async () => {
+    const created = await createEnvironment("lc-env", {
+      contacts: [{ name: "Team Awesome", details: { emailAddress: "team@example.com" } }],
+    });
+    expect(created.uuid).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+    );
+
+    const { status, body } = await reqJson(`/environments/${created.uuid}`, {
+      headers: authHeaders(),
+    });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      name: "lc-env",
+      contacts: [{ name: "Team Awesome", details: { emailAddress: "team@example.com" } }],
+    });
+  });
+
+  it("replaces every attribute on PUT by UUID", async () => {
+    const created = await createEnvironment("lc-put", {
+      displayName: "Before",
+      production: true,
+      contacts: [{ name: "Team A" }],
+    });
+
+    const { status, body } = await putEnvironment(created.uuid, {
+      name: "lc-renamed",
+      displayName: "After",
+    });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      uuid: created.uuid,
+      name: "lc-renamed",
+      displayName: "After",
+      production: false,
+      contacts: [],
+    });
+    expect((await reqJson("/environments/lc-put", { headers: authHeaders() })).status).toBe(404);
+  });
+
+  it("refuses to rename onto another environment", async () => {
+    await createEnvironment("lc-taken");
+    const created = await createEnvironment("lc-rename");
+    const { status } = await putEnvironment(created.uuid, { name: "lc-taken" });
+    expect(status).toBe(409);
+  });
+
+  it("refuses UUID-shaped environment names", async () => {
+    const uuidShaped = "3f2b1c9e-8d4a-4b6f-9e21-7c5d0a1b2c3d";
+    await publishPact("lc-c", "lc-p", "1.0.0");
+    const deploy = await reqJson(`/pacticipants/lc-c/versions/1.0.0/deployed/${uuidShaped}`, {
+      method: "PUT",
+      headers: authHeaders(),
+    });
+    expect(deploy.status).toBe(400);
+
+    const created = await createEnvironment("lc-uuid-name");
+    const { status, body } = await putEnvironment(created.uuid, { name: uuidShaped });
+    expect(status).toBe(400);
+    expect((body as { message: string }).message).toBe("name: Environment name cannot be a UUID");
+  });
+
+  it("rejects invalid contacts", async () => {
+    const { status, body } = await putEnvironment("lc-bad", {
+      contacts: [{ name: "Team", details: { emailAddress: "not an email" } }],
+    });
+    expect(status).toBe(400);
+    expect((body as { message: string }).message).toMatch(/^contacts\.0\.details\.emailAddress/);
+  });
+
+  it("answers 404 for an unknown UUID", async () => {
+    const unknown = "00000000-0000-4000-8000-000000000000";
+    expect((await reqJson(`/environments/${unknown}`, { headers: authHeaders() })).status).toBe(
+      404,
+    );
+    expect((await putEnvironment(unknown, { name: "lc-x" })).status).toBe(404);
+    const del = await req(`/environments/${unknown}`, { method: "DELETE", headers: authHeaders() });
+    expect(del.status).toBe(404);
+  });
+
+  it("archives the deployments of a deleted environment", async () => {
+    const created = await createEnvironment("lc-del");
+    await publishPact("lc-c", "lc-p", "1.0.0");
+    await recordDeployment("lc-c", "1.0.0", "lc-del");
+
+    const del = await req(`/environments/${created.uuid}`, {
+      method: "DELETE",
+      headers: authHeaders(),
+    });
+    expect(del.status).toBe(204);
+    expect((await reqJson("/environments/lc-del", { headers: authHeaders() })).status).toBe(404);
+
+    const { body } = await reqJson("/pacticipants/lc-c/versions/1.0.0/deployed", {
+      headers: authHeaders(),
+    });
+    const embedded = (
+      body as {
+        _embedded: {
+          deployments: unknown[];
+          archivedDeployments: Array<{ environment: string; undeployedAt: string | null }>;
+        };
+      }
+    )._embedded;
+    expect(embedded.deployments).toEqual([]);
+    expect(embedded.archivedDeployments).toHaveLength(1);
+    expect(embedded.archivedDeployments[0]?.environment).toBe("lc-del");
+    expect(embedded.archivedDeployments[0]?.undeployedAt).not.toBeNull();
+  });
+
+  it("archives the releases of a deleted environment with their support state", async () => {
+    const created = await createEnvironment("lc-del-rel");
+    await publishPact("lc-r", "lc-p", "1.0.0");
+    await publishPact("lc-r", "lc-p", "2.0.0", { description: "two" });
+    await recordRelease("lc-r", "1.0.0", "lc-del-rel");
+    await recordRelease("lc-r", "2.0.0", "lc-del-rel");
+    await req("/pacticipants/lc-r/versions/1.0.0/released/lc-del-rel", {
+      method: "DELETE",
+      headers: authHeaders(),
+    });
+
+    const del = await req(`/environments/${created.uuid}`, {
+      method: "DELETE",
+      headers: authHeaders(),
+    });
+    expect(del.status).toBe(204);
+
+    for (const [version, ended] of [
+      ["1.0.0", true],
+      ["2.0.0", false],
+    ] as const) {
+      const { body } = await reqJson(`/pacticipants/lc-r/versions/${version}/released`, {
+        headers: authHeaders(),
+      });
+      const embedded = (
+        body as {
+          _embedded: {
+            releases: unknown[];
+            archivedReleases: Array<{ environment: string; supportEndedAt: string | null }>;
+          };
+        }
+      )._embedded;
+      expect(embedded.releases).toEqual([]);
+      expect(embedded.archivedReleases).toHaveLength(1);
+      expect(embedded.archivedReleases[0]?.environment).toBe("lc-del-rel");
+      expect(embedded.archivedReleases[0]?.supportEndedAt !== null).toBe(ended);
+    }
+  });
+});
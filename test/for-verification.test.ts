@@ -4,9 +4,12 @@ import {
   reqJson,
   authHeaders,
   publishPact,
+  publishVerification,
   tagVersion,
+  addBranchVersion,
   ensureEnvironment,
   recordDeployment,
+  recordRelease,
 } from "./helpers";
 
 const PROVIDER = "fv-provider";
@@ -123,3 +126,312 @@ describe("for-verification", () => {
     expect(pacts.some((p) => p.shortDescription.includes("fv-c1"))).toBe(true);
   });
 });
+
+describe("for-verification pending status", () => {
+  const PENDING_PROVIDER = "pend-provider";
+
+  type VerifiablePact = {
+    verificationProperties: { pending: boolean; notices: Array<{ text: string; when: string }> };
+  };
+
+  async function forVerification(body: Record<string, unknown>): Promise<VerifiablePact[]> {
+    const res = await reqJson(`/pacts/provider/${PENDING_PROVIDER}/for-verification`, {
+      method: "POST",
+      headers: authHeaders("test-token-0123456789abcdef", { "Content-Type": "application/json" }),
+      body: JSON.stringify({ consumerVersionSelectors: [{ consumer: "pend-c1" }], ...body }),
+    });
+    return (res.body as { _embedded: { pacts: VerifiablePact[] } })._embedded.pacts;
+  }
+
+  beforeAll(async () => {
+    const { body } = await publishPact("pend-c1", PENDING_PROVIDER, "1.0.0", { branch: "main" });
+    // The provider build records its branch before publishing results, as a verifier does.
+    await addBranchVersion(PENDING_PROVIDER, "main", "p-main-1");
+    await publishVerification(
+      PENDING_PROVIDER,
+      "pend-c1",
+      body.contentSha as string,
+      true,
+      "p-main-1",
+    );
+  });
+
+  it("is not pending once verified successfully on the requested branch", async () => {
+    const [pact] = await forVerification({
+      includePendingStatus: true,
+      providerVersionBranch: "main",
+    });
+    expect(pact?.verificationProperties.pending).toBe(false);
+    expect(pact?.verificationProperties.notices.map((n) => n.text).join("\n")).toMatch(
+      /has previously been successfully verified by a version of pend-provider from branch 'main'/,
+    );
+  });
+
+  it("is pending on a branch that has not verified the content yet", async () => {
+    const [pact] = await forVerification({
+      includePendingStatus: true,
+      providerVersionBranch: "feat/new",
+    });
+    expect(pact?.verificationProperties.pending).toBe(true);
+    const notices = pact?.verificationProperties.notices ?? [];
+    expect(notices).toContainEqual(
+      expect.objectContaining({
+        when: "before_verification",
+        text: expect.stringMatching(
+          /is in pending state .* will not cause the overall build to fail/,
+        ),
+      }),
+    );
+    expect(notices.some((n) => n.when.startsWith("after_verification"))).toBe(true);
+  });
+
+  it("stays pending when the only verification on the branch failed", async () => {
+    const { body } = await publishPact("pend-c3", PENDING_PROVIDER, "1.0.0");
+    await publishVerification(
+      PENDING_PROVIDER,
+      "pend-c3",
+      body.contentSha as string,
+      false,
+      "p-main-1",
+    );
+    const res = await reqJson(`/pacts/provider/${PENDING_PROVIDER}/for-verification`, {
+      method: "POST",
+      headers: authHeaders("test-token-0123456789abcdef", { "Content-Type": "application/json" }),
+      body: JSON.stringify({
+        consumerVersionSelectors: [{ consumer: "pend-c3" }],
+        includePendingStatus: true,
+        providerVersionBranch: "main",
+      }),
+    });
+    const [pact] = (res.body as { _embedded: { pacts: VerifiablePact[] } })._embedded.pacts;
+    expect(pact?.verificationProperties.pending).toBe(true);
+  });
+
+  it("reports nothing pending without includePendingStatus", async () => {
+    const pacts = await forVerification({ providerVersionBranch: "feat/new" });
+    expect(pacts.every((p) => p.verificationProperties.pending === false)).toBe(true);
+    expect(
+      pacts.flatMap((p) => p.verificationProperties.notices).some((n) => /pending/.test(n.text)),
+    ).toBe(false);
+  });
+
+  it("a failed verification of a pending pact still blocks the consumer", async () => {
+    const { body } = await publishPact("pend-c2", PENDING_PROVIDER, "1.0.0");
+    await publishVerification(PENDING_PROVIDER, "pend-c2", body.contentSha as string, false);
+    const { body: matrix } = await reqJson("/matrix?pacticipant=pend-c2&version=1.0.0", {
+      headers: authHeaders(),
+    });
+    expect(matrix).toMatchObject({
+      summary: { deployable: false },
+      matrix: [{ verificationResult: { success: false, pending: true } }],
+    });
+  });
+});
+
+describe("for-verification WIP pacts", () => {
+  const WIP_PROVIDER = "wip-provider";
+
+  type VerifiablePact = {
+    shortDescription: string;
+    verificationProperties: {
+      pending: boolean;
+      wip?: boolean;
+      notices: Array<{ text: string; when: string }>;
+    };
+  };
+
+  async function forVerification(
+    body: Record<string, unknown>,
+  ): Promise<{ status: number; pacts: VerifiablePact[] }> {
+    const res = await reqJson(`/pacts/provider/${WIP_PROVIDER}/for-verification`, {
+      method: "POST",
+      headers: authHeaders("test-token-0123456789abcdef", { "Content-Type": "application/json" }),
+      // A selector matching nothing, so only WIP pacts come back.
+      body: JSON.stringify({ consumerVersionSelectors: [{ consumer: "nobody" }], ...body }),
+    });
+    const pacts = (res.body as { _embedded?: { pacts: VerifiablePact[] } })._embedded?.pacts ?? [];
+    return { status: res.status, pacts };
+  }
+
+  beforeAll(async () => {
+    const { body } = await publishPact("wip-c1", WIP_PROVIDER, "1.0.0", { branch: "main" });
+    await publishPact(WIP_PROVIDER, "wip-downstream", "p-main-1", { branch: "main" });
+    await publishVerification(WIP_PROVIDER, "wip-c1", body.contentSha as string, true, "p-main-1");
+
+    await publishPact("wip-c1", WIP_PROVIDER, "1.1.0-feat", {
+      branch: "feat/a",
+      description: "feature a",
+    });
+    await tagVersion("wip-c1", "1.1.0-feat", "feat-a");
+  });
+
+  it("returns unverified branch and tag heads as pending WIP pacts", async () => {
+    const { status, pacts } = await forVerification({
+      includePendingStatus: true,
+      providerVersionBranch: "main",
+      includeWipPactsSince: "2020-01-01",
+    });
+    expect(status).toBe(200);
+    expect(pacts).toHaveLength(1);
+    const [pact] = pacts;
+    expect(pact?.shortDescription).toContain("(1.1.0-feat)");
+    expect(pact?.verificationProperties).toMatchObject({ pending: true, wip: true });
+    const texts = pact?.verificationProperties.notices.map((n) => n.text) ?? [];
+    expect(texts.filter((t) => t.includes("'work in progress' pact"))).toHaveLength(2);
+    expect(texts.some((t) => t.includes("from branch 'feat/a'"))).toBe(true);
+    expect(texts.some((t) => t.includes("tagged with 'feat-a'"))).toBe(true);
+    expect(texts.some((t) => t.includes("is in pending state"))).toBe(true);
+  });
+
+  it("skips pacts published before the WIP date", async () => {
+    const { pacts } = await forVerification({
+      includePendingStatus: true,
+      providerVersionBranch: "main",
+      includeWipPactsSince: "2999-01-01",
+    });
+    expect(pacts).toHaveLength(0);
+  });
+
+  it("returns no WIP pacts unless includeWipPactsSince is set", async () => {
+    const { pacts } = await forVerification({
+      includePendingStatus: true,
+      providerVersionBranch: "main",
+    });
+    expect(pacts).toHaveLength(0);
+  });
+
+  it("rejects an unparseable includeWipPactsSince", async () => {
+    const { status } = await forVerification({ includeWipPactsSince: "last tuesday" });
+    expect(status).toBe(400);
+  });
+});
+
+describe("for-verification selector semantics", () => {
+  const SEL_PROVIDER = "sel-provider";
+
+  type VerifiablePact = {
+    shortDescription: string;
+    verificationProperties: { notices: Array<{ text: string; when: string }> };
+  };
+
+  async function forVerification(body: Record<string, unknown>): Promise<VerifiablePact[]> {
+    const res = await reqJson(`/pacts/provider/${SEL_PROVIDER}/for-verification`, {
+      method: "POST",
+      headers: authHeaders("test-token-0123456789abcdef", { "Content-Type": "application/json" }),
+      body: JSON.stringify(body),
+    });
+    return (res.body as { _embedded: { pacts: VerifiablePact[] } })._embedded.pacts;
+  }
+
+  beforeAll(async () => {
+    await publishPact("sel-c1", SEL_PROVIDER, "1.0.0", { branch: "main", description: "one" });
+    await tagVersion("sel-c1", "1.0.0", "prod");
+    await publishPact("sel-c1", SEL_PROVIDER, "2.0.0", { branch: "main", description: "two" });
+    await tagVersion("sel-c1", "2.0.0", "prod");
+    await publishPact("sel-c1", SEL_PROVIDER, "3.0.0", { branch: "feat/x", description: "three" });
+    await publishPact("sel-c2", SEL_PROVIDER, "1.0.0", { branch: "main" });
+    await tagVersion("sel-c2", "1.0.0", "staging");
+  });
+
+  it("returns long histories of distinct pact versions in full", async () => {
+    // More pact versions than SQLite allows bound variables in one statement
+    for (let i = 1; i <= 101; i++) {
+      await publishPact("sel-bulk", SEL_PROVIDER, `${i}.0.0`, {
+        branch: "bulk",
+        description: `bulk ${i}`,
+      });
+    }
+    const pacts = await forVerification({
+      consumerVersionSelectors: [{ branch: "bulk", latest: false }],
+    });
+    expect(pacts).toHaveLength(101);
+  });
+
+  it("returns every tagged version unless latest is true", async () => {
+    const all = await forVerification({ consumerVersionSelectors: [{ tag: "prod" }] });
+    expect(all.map((p) => p.shortDescription).sort()).toEqual([
+      `Pact between sel-c1 (1.0.0) and ${SEL_PROVIDER}`,
+      `Pact between sel-c1 (2.0.0) and ${SEL_PROVIDER}`,
+    ]);
+
+    const latest = await forVerification({
+      consumerVersionSelectors: [{ tag: "prod", latest: true }],
+    });
+    expect(latest.map((p) => p.shortDescription)).toEqual([
+      `Pact between sel-c1 (2.0.0) and ${SEL_PROVIDER}`,
+    ]);
+  });
+
+  it("uses the fallback tag for consumers without the requested tag", async () => {
+    const pacts = await forVerification({
+      consumerVersionSelectors: [{ tag: "prod", latest: true, fallbackTag: "staging" }],
+    });
+    expect(pacts.map((p) => p.shortDescription).sort()).toEqual([
+      `Pact between sel-c1 (2.0.0) and ${SEL_PROVIDER}`,
+      `Pact between sel-c2 (1.0.0) and ${SEL_PROVIDER}`,
+    ]);
+  });
+
+  it("resolves matchingBranch from providerVersionBranch, with a fallback branch", async () => {
+    const pacts = await forVerification({
+      consumerVersionSelectors: [{ matchingBranch: true, fallbackBranch: "main" }],
+      providerVersionBranch: "feat/x",
+    });
+    expect(pacts.map((p) => p.shortDescription).sort()).toEqual([
+      `Pact between sel-c1 (3.0.0) and ${SEL_PROVIDER}`,
+      `Pact between sel-c2 (1.0.0) and ${SEL_PROVIDER}`,
+    ]);
+    const texts = pacts.flatMap((p) => p.verificationProperties.notices.map((n) => n.text));
+    expect(texts.some((t) => t.includes("from fallback branch 'main'"))).toBe(true);
+  });
+
+  it("merges selectors that pick the same content into one pact", async () => {
+    const pacts = await forVerification({
+      consumerVersionSelectors: [
+        { consumer: "sel-c1", branch: "main" },
+        { consumer: "sel-c1", tag: "prod", latest: true },
+      ],
+    });
+    expect(pacts).toHaveLength(1);
+    const [notice] = pacts[0]?.verificationProperties.notices ?? [];
+    expect(notice?.text).toMatch(/matching the following criteria:/);
+    expect(notice?.text).toContain("* latest version of sel-c1 from branch 'main' (2.0.0)");
+    expect(notice?.text).toContain("* latest version of sel-c1 tagged 'prod' (2.0.0)");
+  });
+
+  it("selects every currently supported released version with released", async () => {
+    await ensureEnvironment("sel-store");
+    await recordRelease("sel-c1", "1.0.0", "sel-store");
+    await recordRelease("sel-c1", "2.0.0", "sel-store");
+    await recordRelease("sel-c1", "3.0.0", "sel-store");
+    await req("/pacticipants/sel-c1/versions/3.0.0/released/sel-store", {
+      method: "DELETE",
+      headers: authHeaders(),
+    });
+
+    const pacts = await forVerification({
+      consumerVersionSelectors: [{ released: true, environment: "sel-store" }],
+    });
+    expect(pacts.map((p) => p.shortDescription).sort()).toEqual([
+      `Pact between sel-c1 (1.0.0) and ${SEL_PROVIDER}`,
+      `Pact between sel-c1 (2.0.0) and ${SEL_PROVIDER}`,
+    ]);
+    expect(pacts[0]?.verificationProperties.notices[0]?.text).toContain(
+      "currently released and supported in sel-store",
+    );
+  });
+
+  it("selects currently deployed versions with deployedOrReleased", async () => {
+    await ensureEnvironment("sel-env");
+    await recordDeployment("sel-c1", "1.0.0", "sel-env");
+    const pacts = await forVerification({
+      consumerVersionSelectors: [{ deployedOrReleased: true, environment: "sel-env" }],
+    });
+    expect(pacts.map((p) => p.shortDescription)).toEqual([
+      `Pact between sel-c1 (1.0.0) and ${SEL_PROVIDER}`,
+    ]);
+    expect(pacts[0]?.verificationProperties.notices[0]?.text).toContain(
+      "version of sel-c1 currently deployed to sel-env (1.0.0)",
+    );
+  });
+});
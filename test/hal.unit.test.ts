@@ -44,6 +44,14 @@ describe("HalBuilder", () => {
     const links = hal.pact("p/rov", "c ons", "1.0.0", "a".repeat(64));
     expect(links.self?.href).toContain("/provider/p%2Frov/consumer/c%20ons/");
   });
+
+  it("pacticipant() lists label links only when there are labels", () => {
+    const hal = new HalBuilder("https://broker.example.com");
+    expect(hal.pacticipant("svc")["pb:labels"]).toBeUndefined();
+    expect(hal.pacticipant("svc", ["payments"])["pb:labels"]).toEqual([
+      { href: "https://broker.example.com/pacticipants/svc/labels/payments", name: "payments" },
+    ]);
+  });
 });
 
 describe("getBaseUrl", () => {
@@ -56,4 +64,20 @@ describe("getBaseUrl", () => {
     const req = new Request("http://localhost:9090/health");
     expect(getBaseUrl(req)).toBe("http://localhost:9090");
   });
+
+  it("environment() links the environment and its deployments by UUID", () => {
+    const hal = new HalBuilder("https://broker.example.com");
+    const uuid = "3f2b1c9e-8d4a-4b6f-9e21-7c5d0a1b2c3d";
+    const links = hal.environment(uuid);
+    expect(links.self).toEqual({ href: `https://broker.example.com/environments/${uuid}` });
+    expect(links["pb:deployments"]).toEqual({
+      href: `https://broker.example.com/environments/${uuid}/deployments`,
+    });
+    expect(links["pb:currently-deployed-deployed-versions"]).toEqual({
+      href: `https://broker.example.com/environments/${uuid}/deployed-versions/currently-deployed`,
+    });
+    expect(links["pb:currently-supported-released-versions"]).toEqual({
+      href: `https://broker.example.com/environments/${uuid}/released-versions/currently-supported`,
+    });
+  });
 });
@@ -94,6 +94,18 @@ export async function tagVersion(
   return res.status;
 }
 
+export async function addBranchVersion(
+  pacticipant: string,
+  branch: string,
+  version: string,
+): Promise<number> {
+  const res = await req(
+    `/pacticipants/${encodeURIComponent(pacticipant)}/branches/${encodeURIComponent(branch)}/versions/${encodeURIComponent(version)}`,
+    { method: "PUT", headers: authHeaders() },
+  );
+  return res.status;
+}
+
 export async function publishVerification(
   provider: string,
   consumer: string,
@@ -120,9 +132,23 @@ export async function recordDeployment(
   pacticipant: string,
   version: string,
   environment: string,
+  applicationInstance?: string,
+): Promise<number> {
+  const instance = applicationInstance ? `?applicationInstance=${applicationInstance}` : "";
+  const res = await req(
+    `/pacticipants/${encodeURIComponent(pacticipant)}/versions/${encodeURIComponent(version)}/deployed/${encodeURIComponent(environment)}${instance}`,
+    { method: "PUT", headers: authHeaders() },
+  );
+  return res.status;
+}
+
+export async function recordRelease(
+  pacticipant: string,
+  version: string,
+  environment: string,
 ): Promise<number> {
   const res = await req(
-    `/pacticipants/${encodeURIComponent(pacticipant)}/versions/${encodeURIComponent(version)}/deployed/${encodeURIComponent(environment)}`,
+    `/pacticipants/${encodeURIComponent(pacticipant)}/versions/${encodeURIComponent(version)}/released/${encodeURIComponent(environment)}`,
     { method: "PUT", headers: authHeaders() },
   );
   return res.status;
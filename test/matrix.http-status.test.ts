@@ -0,0 +1,26 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { reqJson, authHeaders, publishPact, publishVerification } from "./helpers";
+
+// Runs with CAN_I_DEPLOY_HTTP_STATUS=by-result (see vitest.workspace.ts).
+describe("CAN_I_DEPLOY_HTTP_STATUS=by-result", () => {
+  beforeAll(async () => {
+    const { body } = await publishPact("hse-c1", "hse-p1", "1.0.0");
+    await publishVerification("hse-p1", "hse-c1", body.contentSha as string, false);
+  });
+
+  it("answers 409 for a failed verification without an httpStatus parameter", async () => {
+    const { status, body } = await reqJson("/can-i-deploy?pacticipant=hse-c1&version=1.0.0", {
+      headers: authHeaders(),
+    });
+    expect(status).toBe(409);
+    expect((body as { summary: { deployable: boolean } }).summary.deployable).toBe(false);
+  });
+
+  it("lets the request opt back into always-200", async () => {
+    const { status } = await reqJson(
+      "/can-i-deploy?pacticipant=hse-c1&version=1.0.0&httpStatus=always-200",
+      { headers: authHeaders() },
+    );
+    expect(status).toBe(200);
+  });
+});
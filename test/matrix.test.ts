@@ -1,5 +1,14 @@
 import { describe, it, expect, beforeAll } from "vitest";
-import { reqJson, authHeaders, publishPact, publishVerification, tagVersion } from "./helpers";
+import {
+  reqJson,
+  authHeaders,
+  publishPact,
+  publishVerification,
+  tagVersion,
+  ensureEnvironment,
+  recordDeployment,
+  recordRelease,
+} from "./helpers";
 
 describe("/matrix", () => {
   beforeAll(async () => {
@@ -77,4 +86,658 @@ describe("/can-i-deploy", () => {
     expect(status).toBe(200);
     expect((body as { summary: { deployable: boolean } }).summary.deployable).toBe(true);
   });
+
+  it("accepts tags containing dots in to", async () => {
+    await tagVersion("cid-p1", "p-1.0.0", "v1.2");
+    const { status, body } = await reqJson(
+      "/can-i-deploy?pacticipant=cid-c1&version=1.0.0&to=v1.2",
+      { headers: authHeaders() },
+    );
+    expect(status).toBe(200);
+    expect((body as { summary: { deployable: boolean } }).summary.deployable).toBe(true);
+  });
+});
+
+describe("/can-i-deploy?environment=", () => {
+  type Decision = {
+    summary: { deployable: boolean; reason: string };
+    matrix: Array<{ provider: { name: string; version: string | null } }>;
+  };
+
+  async function canIDeploy(query: string): Promise<{ status: number; body: Decision }> {
+    const { status, body } = await reqJson(`/can-i-deploy?${query}`, { headers: authHeaders() });
+    return { status, body: body as Decision };
+  }
+
+  beforeAll(async () => {
+    await ensureEnvironment("cid-env");
+    const { body } = await publishPact("cide-c1", "cide-p1", "1.0.0");
+    // Verified by p-2, but p-1 is what is deployed.
+    await publishVerification("cide-p1", "cide-c1", body.contentSha as string, true, "p-2");
+    await publishPact("cide-p1", "cide-downstream", "p-1");
+    await recordDeployment("cide-p1", "p-1", "cid-env");
+  });
+
+  it("checks the pact against the provider version deployed to the environment", async () => {
+    const { status, body } = await canIDeploy(
+      "pacticipant=cide-c1&version=1.0.0&environment=cid-env",
+    );
+    expect(status).toBe(200);
+    expect(body.summary).toEqual({
+      deployable: false,
+      reason:
+        "There is no verified pact between version 1.0.0 of cide-c1 and the version of cide-p1 currently deployed to cid-env (p-1)",
+      success: 0,
+      failed: 0,
+      unknown: 1,
+      ignored: 0,
+    });
+    expect(body.matrix).toEqual([
+      expect.objectContaining({ provider: { name: "cide-p1", version: "p-1" } }),
+    ]);
+  });
+
+  it("is deployable once the deployed provider version verifies the pact", async () => {
+    const { body: pact } = await publishPact("cide-c2", "cide-p2", "1.0.0");
+    await publishPact("cide-p2", "cide-downstream", "p-1");
+    await publishVerification("cide-p2", "cide-c2", pact.contentSha as string, true, "p-1");
+    await recordDeployment("cide-p2", "p-1", "cid-env");
+    const { body } = await canIDeploy("pacticipant=cide-c2&version=1.0.0&environment=cid-env");
+    expect(body.summary.deployable).toBe(true);
+  });
+
+  it("reports a failed verification by the deployed provider version", async () => {
+    const { body: pact } = await publishPact("cide-c3", "cide-p3", "1.0.0");
+    await publishPact("cide-p3", "cide-downstream", "p-1");
+    await publishVerification("cide-p3", "cide-c3", pact.contentSha as string, false, "p-1");
+    await recordDeployment("cide-p3", "p-1", "cid-env");
+    const { body } = await canIDeploy("pacticipant=cide-c3&version=1.0.0&environment=cid-env");
+    expect(body.summary).toEqual({
+      deployable: false,
+      reason:
+        "The verification for the pact between version 1.0.0 of cide-c3 and the version of cide-p3 currently deployed to cid-env (p-1) failed",
+      success: 0,
+      failed: 1,
+      unknown: 0,
+      ignored: 0,
+    });
+  });
+
+  it("blocks a consumer whose provider is not deployed to the environment", async () => {
+    await publishPact("cide-c4", "cide-p4", "1.0.0");
+    const { body } = await canIDeploy("pacticipant=cide-c4&version=1.0.0&environment=cid-env");
+    expect(body.summary.deployable).toBe(false);
+    expect(body.summary.reason).toBe(
+      "There is no verified pact between version 1.0.0 of cide-c4 and a version of cide-p4 currently deployed to cid-env",
+    );
+    expect(body.matrix[0]?.provider.version).toBeNull();
+  });
+
+  it("returns 404 for an unknown environment or version and 400 when combined with to", async () => {
+    expect((await canIDeploy("pacticipant=cide-c1&version=1.0.0&environment=nope")).status).toBe(
+      404,
+    );
+    expect((await canIDeploy("pacticipant=cide-c1&version=9.9.9&environment=cid-env")).status).toBe(
+      404,
+    );
+    expect(
+      (await canIDeploy("pacticipant=cide-c1&version=1.0.0&environment=cid-env&to=prod")).status,
+    ).toBe(400);
+  });
+});
+
+describe("provider-side can-i-deploy", () => {
+  type Decision = {
+    summary: { deployable: boolean; reason: string };
+    matrix: Array<{
+      consumer: { name: string; version: string };
+      provider: { name: string; version: string | null };
+      verificationResult: { success: boolean } | null;
+    }>;
+  };
+
+  async function canIDeploy(query: string): Promise<Decision> {
+    const { body } = await reqJson(`/can-i-deploy?${query}`, { headers: authHeaders() });
+    return body as Decision;
+  }
+
+  beforeAll(async () => {
+    const { body: v1 } = await publishPact("pcid-c1", "pcid-p1", "1.0.0", { description: "one" });
+    await tagVersion("pcid-c1", "1.0.0", "prod");
+    await publishVerification("pcid-p1", "pcid-c1", v1.contentSha as string, true, "p-1");
+    await publishPact("pcid-c1", "pcid-p1", "2.0.0", { description: "two" });
+  });
+
+  it("checks the provider version against each consumer's latest pact", async () => {
+    const decision = await canIDeploy("pacticipant=pcid-p1&version=p-1");
+    expect(decision.summary).toEqual({
+      deployable: false,
+      reason: "1 pact(s) have not been verified",
+      success: 0,
+      failed: 0,
+      unknown: 1,
+      ignored: 0,
+    });
+    expect(decision.matrix).toEqual([
+      {
+        consumer: { name: "pcid-c1", version: "2.0.0" },
+        provider: { name: "pcid-p1", version: "p-1" },
+        pactVersion: { sha: expect.any(String) },
+        verificationResult: null,
+      },
+    ]);
+  });
+
+  it("checks the consumer version carrying the target tag", async () => {
+    const decision = await canIDeploy("pacticipant=pcid-p1&version=p-1&to=prod");
+    expect(decision.summary.deployable).toBe(true);
+    expect(decision.matrix[0]?.consumer.version).toBe("1.0.0");
+  });
+
+  it("reports the verifying provider version on consumer rows", async () => {
+    const { body } = await reqJson("/matrix?pacticipant=pcid-c1&version=1.0.0", {
+      headers: authHeaders(),
+    });
+    expect((body as Decision).matrix[0]?.provider).toEqual({ name: "pcid-p1", version: "p-1" });
+  });
+
+  it("a failed verification of a pending pact does not block the provider", async () => {
+    const { body } = await publishPact("pcid-c2", "pcid-p2", "1.0.0");
+    await publishVerification("pcid-p2", "pcid-c2", body.contentSha as string, false, "p-1");
+    expect((await canIDeploy("pacticipant=pcid-p2&version=p-1")).summary.deployable).toBe(true);
+    expect((await canIDeploy("pacticipant=pcid-c2&version=1.0.0")).summary.deployable).toBe(false);
+  });
+
+  it("requires the pacts of consumers deployed to the environment to be verified", async () => {
+    await ensureEnvironment("pcid-env");
+    await recordDeployment("pcid-c1", "1.0.0", "pcid-env");
+    await publishPact("pcid-p1", "pcid-downstream", "p-2");
+
+    const verified = await canIDeploy("pacticipant=pcid-p1&version=p-1&environment=pcid-env");
+    expect(verified.summary.deployable).toBe(true);
+
+    const unverified = await canIDeploy("pacticipant=pcid-p1&version=p-2&environment=pcid-env");
+    expect(unverified.summary).toMatchObject({ deployable: false });
+    expect(unverified.summary.reason).toContain(
+      "There is no verified pact between the version of pcid-c1 currently deployed to pcid-env (1.0.0) and version p-2 of pcid-p1",
+    );
+  });
+});
+
+type MatrixBody = {
+  summary: { deployable: boolean; success: number; failed: number; unknown: number };
+  notices: Array<{ type: string; text: string }>;
+  matrix: Array<{
+    consumer: { name: string; version: string };
+    provider: { name: string; version: string | null };
+    verificationResult: { success: boolean } | null;
+  }>;
+};
+
+function pairs(body: MatrixBody): string[] {
+  return body.matrix.map((r) => `${r.consumer.version}:${r.provider.version}`);
+}
+
+describe("can-i-deploy with released versions", () => {
+  it("requires the provider to satisfy every supported released consumer version", async () => {
+    await ensureEnvironment("rel-env");
+    const { body: one } = await publishPact("rel-c", "rel-p", "1.0.0", { description: "one" });
+    const { body: two } = await publishPact("rel-c", "rel-p", "2.0.0", { description: "two" });
+    await recordRelease("rel-c", "1.0.0", "rel-env");
+    await recordRelease("rel-c", "2.0.0", "rel-env");
+    await publishVerification("rel-p", "rel-c", one.contentSha as string, true, "p-1");
+
+    const url = "/can-i-deploy?pacticipant=rel-p&version=p-1&environment=rel-env";
+    const before = await reqJson(url, { headers: authHeaders() });
+    const summary = (before.body as { summary: { deployable: boolean; reason: string } }).summary;
+    expect(summary.deployable).toBe(false);
+    expect(summary.reason).toContain(
+      "There is no verified pact between a version of rel-c currently released and supported in rel-env (2.0.0) and version p-1 of rel-p",
+    );
+
+    await publishVerification("rel-p", "rel-c", two.contentSha as string, true, "p-1");
+    const after = await reqJson(url, { headers: authHeaders() });
+    expect((after.body as { summary: { deployable: boolean } }).summary.deployable).toBe(true);
+  });
+
+  it("checks a consumer against each supported released provider version", async () => {
+    await ensureEnvironment("rel-env2");
+    const { body } = await publishPact("rel-c2", "rel-lib", "1.0.0");
+    await publishVerification("rel-lib", "rel-c2", body.contentSha as string, true, "l-1");
+    await publishVerification("rel-lib", "rel-c2", body.contentSha as string, false, "l-2");
+    await recordRelease("rel-lib", "l-1", "rel-env2");
+    await recordRelease("rel-lib", "l-2", "rel-env2");
+
+    const { body: result } = await reqJson(
+      "/can-i-deploy?pacticipant=rel-c2&version=1.0.0&environment=rel-env2",
+      { headers: authHeaders() },
+    );
+    const summary = (result as { summary: { deployable: boolean; reason: string } }).summary;
+    expect(summary.deployable).toBe(false);
+    expect(summary.reason).toContain(
+      "The verification for the pact between version 1.0.0 of rel-c2 and a version of rel-lib currently released and supported in rel-env2 (l-2) failed",
+    );
+  });
+});
+
+describe("/matrix queries", () => {
+  async function matrix(query: string): Promise<{ status: number; body: MatrixBody }> {
+    const { status, body } = await reqJson(`/matrix?${query}`, { headers: authHeaders() });
+    return { status, body: body as MatrixBody };
+  }
+
+  beforeAll(async () => {
+    const { body: v1 } = await publishPact("mq-c1", "mq-p1", "1.0.0", { description: "one" });
+    await tagVersion("mq-c1", "1.0.0", "prod");
+    await publishVerification("mq-p1", "mq-c1", v1.contentSha as string, true, "p-1");
+    await publishVerification("mq-p1", "mq-c1", v1.contentSha as string, false, "p-2");
+    const { body: v2 } = await publishPact("mq-c1", "mq-p1", "2.0.0", {
+      branch: "main",
+      description: "two",
+    });
+    await publishVerification("mq-p1", "mq-c1", v2.contentSha as string, true, "p-2");
+  });
+
+  it("returns only rows between the selected versions", async () => {
+    const { body } = await matrix(
+      "q[][pacticipant]=mq-c1&q[][version]=1.0.0&q[][pacticipant]=mq-p1&q[][version]=p-1",
+    );
+    expect(pairs(body)).toEqual(["1.0.0:p-1"]);
+    expect(body.summary).toMatchObject({ deployable: true, success: 1, failed: 0, unknown: 0 });
+    expect(body.notices).toEqual([
+      {
+        type: "success",
+        text: "The verification for the pact between version 1.0.0 of mq-c1 and version p-1 of mq-p1 passed",
+      },
+    ]);
+  });
+
+  it("returns every verification unless latestby=cvp", async () => {
+    const all = await matrix("q[][pacticipant]=mq-c1");
+    expect(pairs(all.body)).toEqual(["2.0.0:p-2", "1.0.0:p-2", "1.0.0:p-1"]);
+    expect(all.body.summary).toMatchObject({ deployable: false, success: 2, failed: 1 });
+
+    const latest = await matrix("q[][pacticipant]=mq-c1&latestby=cvp");
+    expect(pairs(latest.body)).toEqual(["2.0.0:p-2", "1.0.0:p-2"]);
+  });
+
+  it("filters by success and applies limit", async () => {
+    const failed = await matrix("q[][pacticipant]=mq-c1&success[]=false");
+    expect(pairs(failed.body)).toEqual(["1.0.0:p-2"]);
+
+    const limited = await matrix("q[][pacticipant]=mq-c1&limit=1");
+    expect(limited.body.matrix).toHaveLength(1);
+  });
+
+  it("selects the latest version of a branch", async () => {
+    const { body } = await matrix("q[][pacticipant]=mq-c1&q[][branch]=main&q[][latest]=true");
+    expect(pairs(body)).toEqual(["2.0.0:p-2"]);
+  });
+
+  it("selects the versions deployed to an environment", async () => {
+    await ensureEnvironment("mq-env");
+    await recordDeployment("mq-p1", "p-1", "mq-env");
+    const { body } = await matrix(
+      "q[][pacticipant]=mq-c1&q[][version]=1.0.0&q[][pacticipant]=mq-p1&q[][environment]=mq-env",
+    );
+    expect(pairs(body)).toEqual(["1.0.0:p-1"]);
+  });
+
+  it("narrows the counterpart of a single selector with latest and tag", async () => {
+    const { body } = await matrix("q[][pacticipant]=mq-p1&latestby=cvpv&latest=true&tag=prod");
+    expect(pairs(body)).toEqual(["1.0.0:p-2", "1.0.0:p-1"]);
+  });
+
+  it("reports an unverified row for a selected provider version", async () => {
+    const { body } = await matrix(
+      "q[][pacticipant]=mq-c1&q[][version]=2.0.0&q[][pacticipant]=mq-p1&q[][version]=p-1",
+    );
+    expect(pairs(body)).toEqual(["2.0.0:p-1"]);
+    expect(body.summary).toMatchObject({ deployable: false, unknown: 1 });
+    expect(body.notices[0]?.text).toBe(
+      "There is no verified pact between version 2.0.0 of mq-c1 and version p-1 of mq-p1",
+    );
+  });
+
+  it("rejects invalid options", async () => {
+    expect((await matrix("q[][pacticipant]=mq-c1&latestby=nope")).status).toBe(400);
+    expect((await matrix("q[][pacticipant]=mq-c1&limit=0")).status).toBe(400);
+    expect((await matrix("q[][version]=1.0.0")).status).toBe(400);
+  });
+});
+
+describe("/matrix label selectors", () => {
+  beforeAll(async () => {
+    const { body: c1 } = await publishPact("ml-c1", "ml-p1", "1.0.0");
+    await publishVerification("ml-p1", "ml-c1", c1.contentSha as string, true, "p-1");
+    const { body: c2 } = await publishPact("ml-c2", "ml-p1", "1.0.0");
+    await publishVerification("ml-p1", "ml-c2", c2.contentSha as string, false, "p-1");
+    for (const name of ["ml-c1", "ml-p1"]) {
+      await reqJson(`/pacticipants/${name}/labels/ml-team`, {
+        method: "PUT",
+        headers: authHeaders(),
+      });
+    }
+  });
+
+  it("selects every pacticipant carrying the label", async () => {
+    const { body } = await reqJson("/matrix?q[][label]=ml-team", { headers: authHeaders() });
+    const matrix = body as MatrixBody;
+    expect(matrix.matrix.map((r) => r.consumer.name)).toEqual(["ml-c1"]);
+    expect(matrix.summary).toMatchObject({ deployable: true, success: 1 });
+  });
+
+  it("returns no rows for a label nobody carries", async () => {
+    const { body } = await reqJson("/matrix?q[][label]=ml-nobody", { headers: authHeaders() });
+    expect((body as MatrixBody).matrix).toEqual([]);
+  });
+
+  it("rejects a label combined with a pacticipant or version", async () => {
+    for (const query of [
+      "q[][label]=ml-team&q[][pacticipant]=ml-c1",
+      "q[][label]=ml-team&q[][version]=1.0.0",
+    ]) {
+      const { status } = await reqJson(`/matrix?${query}`, { headers: authHeaders() });
+      expect(status).toBe(400);
+    }
+  });
+});
+
+describe("POST /can-i-deploy/batch", () => {
+  type BatchBody = {
+    summary: { deployable: boolean; reason: string };
+    pairs: Array<{
+      consumer: { name: string; version: string };
+      provider: { name: string; version: string | null };
+      deployable: boolean;
+      reason: string;
+    }>;
+  };
+
+  async function batch(payload: unknown): Promise<{ status: number; body: BatchBody }> {
+    const { status, body } = await reqJson("/can-i-deploy/batch", {
+      method: "POST",
+      headers: authHeaders("test-token-0123456789abcdef", { "Content-Type": "application/json" }),
+      body: JSON.stringify(payload),
+    });
+    return { status, body: body as BatchBody };
+  }
+
+  beforeAll(async () => {
+    await ensureEnvironment("batch-env");
+    const { body } = await publishPact("bcd-c1", "bcd-p1", "1.0.0");
+    await publishVerification("bcd-p1", "bcd-c1", body.contentSha as string, true, "p-2");
+    // p-1 is deployed but never verified the pact
+    await publishPact("bcd-p1", "bcd-downstream", "p-1");
+    await recordDeployment("bcd-p1", "p-1", "batch-env");
+  });
+
+  it("judges versions deployed together against each other", async () => {
+    const alone = await batch({
+      environment: "batch-env",
+      versions: [{ pacticipant: "bcd-c1", version: "1.0.0" }],
+    });
+    expect(alone.body.summary.deployable).toBe(false);
+
+    const { status, body } = await batch({
+      environment: "batch-env",
+      versions: [
+        { pacticipant: "bcd-c1", version: "1.0.0" },
+        { pacticipant: "bcd-p1", version: "p-2" },
+      ],
+    });
+    expect(status).toBe(200);
+    expect(body.summary.deployable).toBe(true);
+    expect(body.pairs).toEqual([
+      expect.objectContaining({
+        consumer: { name: "bcd-c1", version: "1.0.0" },
+        provider: { name: "bcd-p1", version: "p-2" },
+        deployable: true,
+        reason:
+          "The verification for the pact between version 1.0.0 of bcd-c1 and version p-2 of bcd-p1 being deployed alongside it passed",
+      }),
+    ]);
+  });
+
+  it("still checks consumers already deployed to the environment", async () => {
+    const { body } = await publishPact("bcd-c2", "bcd-p1", "1.0.0", { description: "c2" });
+    await publishVerification("bcd-p1", "bcd-c2", body.contentSha as string, true, "p-1");
+    await recordDeployment("bcd-c2", "1.0.0", "batch-env");
+
+    const result = await batch({
+      environment: "batch-env",
+      versions: [
+        { pacticipant: "bcd-c1", version: "1.0.0" },
+        { pacticipant: "bcd-p1", version: "p-2" },
+      ],
+    });
+    expect(result.body.summary.deployable).toBe(false);
+    expect(result.body.pairs.filter((p) => !p.deployable)).toEqual([
+      expect.objectContaining({
+        consumer: { name: "bcd-c2", version: "1.0.0" },
+        provider: { name: "bcd-p1", version: "p-2" },
+        reason:
+          "There is no verified pact between the version of bcd-c2 currently deployed to batch-env (1.0.0) and version p-2 of bcd-p1",
+      }),
+    ]);
+  });
+
+  it("rejects unknown versions and repeated pacticipants", async () => {
+    const unknown = await batch({
+      environment: "batch-env",
+      versions: [
+        { pacticipant: "bcd-c1", version: "1.0.0" },
+        { pacticipant: "bcd-p1", version: "9.9.9" },
+      ],
+    });
+    expect(unknown.status).toBe(404);
+    expect(unknown.body).toMatchObject({ message: "Version 9.9.9 of bcd-p1 not found" });
+
+    const repeated = await batch({
+      environment: "batch-env",
+      versions: [
+        { pacticipant: "bcd-c1", version: "1.0.0" },
+        { pacticipant: "bcd-c1", version: "1.0.0" },
+      ],
+    });
+    expect(repeated.status).toBe(400);
+  });
+});
+
+describe("/can-i-deploy?wait=", () => {
+  type Decision = { summary: { deployable: boolean } };
+
+  it("answers as soon as the missing verification is published", async () => {
+    const { body } = await publishPact("wait-c1", "wait-p1", "1.0.0");
+    const started = Date.now();
+    const pending = reqJson("/can-i-deploy?pacticipant=wait-c1&version=1.0.0&wait=30", {
+      headers: authHeaders(),
+    });
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    await publishVerification("wait-p1", "wait-c1", body.contentSha as string, true);
+
+    const { status, body: decision } = await pending;
+    expect(status).toBe(200);
+    expect((decision as Decision).summary.deployable).toBe(true);
+    expect(Date.now() - started).toBeLessThan(10_000);
+  });
+
+  it("gives up after the wait and reports the unverified pact", async () => {
+    await publishPact("wait-c2", "wait-p2", "1.0.0");
+    const { body } = await reqJson("/can-i-deploy?pacticipant=wait-c2&version=1.0.0&wait=1", {
+      headers: authHeaders(),
+    });
+    expect((body as Decision).summary.deployable).toBe(false);
+  });
+
+  it("rejects waits outside the allowed range", async () => {
+    for (const wait of ["0", "61", "soon"]) {
+      const { status } = await reqJson(
+        `/can-i-deploy?pacticipant=wait-c2&version=1.0.0&wait=${wait}`,
+        { headers: authHeaders() },
+      );
+      expect(status).toBe(400);
+    }
+  });
+});
+
+describe("GET /can-i-deploy/decisions", () => {
+  type DecisionsBody = {
+    decisions: Array<{
+      pacticipant: string;
+      version: string;
+      environment: string | null;
+      deployable: boolean;
+      caller: string | null;
+      requestId: string | null;
+      matrix: Array<{ _links: Record<string, { href: string }> }>;
+    }>;
+    page: { number: number; size: number; totalElements: number; totalPages: number };
+    _links: Record<string, { href: string }>;
+  };
+
+  async function decisions(query: string): Promise<DecisionsBody> {
+    const { body } = await reqJson(`/can-i-deploy/decisions?${query}`, { headers: authHeaders() });
+    return body as DecisionsBody;
+  }
+
+  beforeAll(async () => {
+    const { body } = await publishPact("dl-c1", "dl-p1", "1.0.0");
+    await reqJson("/can-i-deploy?pacticipant=dl-c1&version=1.0.0", {
+      headers: authHeaders(undefined, { "User-Agent": "pact-cli/1.0", "X-Request-Id": "dl-req-1" }),
+    });
+    await publishVerification("dl-p1", "dl-c1", body.contentSha as string, true);
+    await reqJson("/can-i-deploy?pacticipant=dl-c1&version=1.0.0", { headers: authHeaders() });
+  });
+
+  it("records each evaluation with its caller and matrix, newest first", async () => {
+    const body = await decisions("pacticipant=dl-c1");
+    expect(body.decisions.map((d) => d.deployable)).toEqual([true, false]);
+    expect(body.decisions[1]).toMatchObject({
+      pacticipant: "dl-c1",
+      version: "1.0.0",
+      caller: "pact-cli/1.0",
+      requestId: "dl-req-1",
+    });
+
+    const [verifiedRow] = body.decisions[0]?.matrix ?? [];
+    expect(verifiedRow?._links.self?.href).toMatch(
+      /\/pacts\/provider\/dl-p1\/consumer\/dl-c1\/pact-version\/[a-f0-9]{64}$/,
+    );
+    expect(verifiedRow?._links["pb:verification-result"]?.href).toMatch(
+      /\/verification-results\/\d+$/,
+    );
+    expect(body.decisions[1]?.matrix[0]?._links["pb:verification-result"]).toBeUndefined();
+  });
+
+  it("pages through decisions", async () => {
+    const body = await decisions("pacticipant=dl-c1&version=1.0.0&size=1&page=2");
+    expect(body.decisions).toHaveLength(1);
+    expect(body.decisions[0]?.deployable).toBe(false);
+    expect(body.page).toEqual({ number: 2, size: 1, totalElements: 2, totalPages: 2 });
+    expect(body._links.previous?.href).toContain("page=1");
+    expect(body._links.next).toBeUndefined();
+  });
+
+  it("filters by environment", async () => {
+    await ensureEnvironment("dl-env");
+    await reqJson("/can-i-deploy?pacticipant=dl-c1&version=1.0.0&environment=dl-env", {
+      headers: authHeaders(),
+    });
+    const body = await decisions("environment=dl-env");
+    expect(body.decisions).toHaveLength(1);
+    expect(body.decisions[0]?.environment).toBe("dl-env");
+  });
+});
+
+describe("/can-i-deploy ignore[] and dryRun", () => {
+  type Decision = {
+    summary: {
+      deployable: boolean;
+      reason: string;
+      success: number;
+      unknown: number;
+      ignored: number;
+      dryRun?: boolean;
+    };
+    matrix: Array<{ provider: { name: string }; ignored?: boolean }>;
+  };
+
+  async function canIDeploy(query: string): Promise<{ status: number; body: Decision }> {
+    const { status, body } = await reqJson(`/can-i-deploy?${query}`, { headers: authHeaders() });
+    return { status, body: body as Decision };
+  }
+
+  beforeAll(async () => {
+    const { body } = await publishPact("ign-c1", "ign-p1", "1.0.0", { description: "p1" });
+    await publishVerification("ign-p1", "ign-c1", body.contentSha as string, true);
+    // ign-legacy is being decommissioned and never verifies
+    await publishPact("ign-c1", "ign-legacy", "1.0.0", { description: "legacy" });
+  });
+
+  it("keeps ignored rows in the matrix but out of the decision", async () => {
+    const blocked = await canIDeploy("pacticipant=ign-c1&version=1.0.0");
+    expect(blocked.body.summary.deployable).toBe(false);
+
+    const { body } = await canIDeploy(
+      "pacticipant=ign-c1&version=1.0.0&ignore[][pacticipant]=ign-legacy",
+    );
+    expect(body.summary).toMatchObject({ deployable: true, success: 1, unknown: 0, ignored: 1 });
+    expect(body.matrix.find((r) => r.provider.name === "ign-legacy")?.ignored).toBe(true);
+    expect(body.matrix.find((r) => r.provider.name === "ign-p1")?.ignored).toBeUndefined();
+  });
+
+  it("only ignores the named version when one is given", async () => {
+    const { body } = await canIDeploy(
+      "pacticipant=ign-c1&version=1.0.0&ignore[][pacticipant]=ign-legacy&ignore[][version]=9.9.9",
+    );
+    expect(body.summary).toMatchObject({ deployable: false, ignored: 0 });
+  });
+
+  it("reports the real verdict without blocking on a dry run", async () => {
+    const { body } = await canIDeploy("pacticipant=ign-c1&version=1.0.0&dryRun=true");
+    expect(body.summary).toMatchObject({
+      deployable: true,
+      dryRun: true,
+      reason: "[dry-run] 1 pact(s) have not been verified",
+    });
+  });
+
+  it("rejects malformed ignore entries and dryRun values", async () => {
+    expect((await canIDeploy("pacticipant=ign-c1&version=1.0.0&ignore[][version]=1")).status).toBe(
+      400,
+    );
+    expect((await canIDeploy("pacticipant=ign-c1&version=1.0.0&dryRun=yes")).status).toBe(400);
+  });
+});
+
+describe("/can-i-deploy?httpStatus=", () => {
+  beforeAll(async () => {
+    const { body: ok } = await publishPact("hs-c1", "hs-p1", "1.0.0");
+    await publishVerification("hs-p1", "hs-c1", ok.contentSha as string, true);
+    const { body: bad } = await publishPact("hs-c2", "hs-p2", "1.0.0");
+    await publishVerification("hs-p2", "hs-c2", bad.contentSha as string, false);
+    await publishPact("hs-c3", "hs-p3", "1.0.0");
+  });
+
+  async function status(query: string): Promise<number> {
+    return (await reqJson(`/can-i-deploy?${query}`, { headers: authHeaders() })).status;
+  }
+
+  it("answers 200 regardless of the verdict by default", async () => {
+    expect(await status("pacticipant=hs-c2&version=1.0.0")).toBe(200);
+  });
+
+  it("maps the verdict onto the status with by-result", async () => {
+    expect(await status("pacticipant=hs-c1&version=1.0.0&httpStatus=by-result")).toBe(200);
+    expect(await status("pacticipant=hs-c2&version=1.0.0&httpStatus=by-result")).toBe(409);
+    expect(await status("pacticipant=hs-c3&version=1.0.0&httpStatus=by-result")).toBe(425);
+    expect(await status("pacticipant=hs-c2&version=1.0.0&httpStatus=by-result&dryRun=true")).toBe(
+      200,
+    );
+  });
+
+  it("rejects unknown modes", async () => {
+    expect(await status("pacticipant=hs-c1&version=1.0.0&httpStatus=strict")).toBe(400);
+  });
 });
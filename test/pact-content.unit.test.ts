@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import {
+  validatePactContent,
+  detectSpecificationVersion,
+  MAX_INTERACTIONS,
+  isPactOverwriteAllowed,
+  summarisePactDiff,
+  canonicalisePact,
+  ignoredMetadataPaths,
+} from "../src/lib/pact-content";
+import type { PactContent } from "../src/types";
+
+function pact(interactions: unknown[], metadata?: Record<string, unknown>): PactContent {
+  return { consumer: { name: "c" }, provider: { name: "p" }, interactions, metadata };
+}
+
+describe("validatePactContent", () => {
+  it("accepts a minimal pact", () => {
+    expect(validatePactContent(pact([])).valid).toBe(true);
+  });
+
+  it("rejects a pact without interactions", () => {
+    const result = validatePactContent({ consumer: { name: "c" }, provider: { name: "p" } });
+    expect(result).toEqual({
+      valid: false,
+      message: "Pact must contain consumer, provider, and interactions or messages",
+    });
+  });
+
+  it("accepts a v3 message pact", () => {
+    const result = validatePactContent({
+      consumer: { name: "c" },
+      provider: { name: "p" },
+      messages: [{ description: "an order event", contents: { id: 1 } }],
+    });
+    expect(result.valid).toBe(true);
+  });
+
+  it("rejects an unknown v4 interaction type", () => {
+    const result = validatePactContent(pact([{ type: "Asynchronous/HTTP" }]));
+    expect(result).toMatchObject({
+      valid: false,
+      message: expect.stringMatching(/^interactions\.0\.type/),
+    });
+  });
+
+  it("counts messages and interactions together against the cap", () => {
+    const half = Array.from({ length: MAX_INTERACTIONS / 2 + 1 }, (_, i) => ({
+      description: `d${i}`,
+    }));
+    const result = validatePactContent({ ...pact(half), messages: half });
+    expect(result).toMatchObject({ valid: false, message: expect.stringMatching(/maximum/) });
+  });
+});
+
+describe("detectSpecificationVersion", () => {
+  it("prefers the version declared in metadata", () => {
+    expect(detectSpecificationVersion(pact([], { pactSpecification: { version: "3.0.0" } }))).toBe(
+      "3.0.0",
+    );
+  });
+
+  it("infers 4.0.0 from typed interactions, 3.0.0 from messages, 2.0.0 otherwise", () => {
+    expect(detectSpecificationVersion(pact([{ type: "Synchronous/Messages" }]))).toBe("4.0.0");
+    expect(detectSpecificationVersion({ ...pact([]), interactions: undefined, messages: [] })).toBe(
+      "3.0.0",
+    );
+    expect(detectSpecificationVersion(pact([{ description: "http" }]))).toBe("2.0.0");
+  });
+});
+
+describe("isPactOverwriteAllowed", () => {
+  it("rejects when unset or false", () => {
+    expect(isPactOverwriteAllowed(undefined, "c")).toBe(false);
+    expect(isPactOverwriteAllowed("false", "c")).toBe(false);
+  });
+
+  it("'true' allows every consumer", () => {
+    expect(isPactOverwriteAllowed("true", "anyone")).toBe(true);
+  });
+
+  it("a name list allows only the listed consumers", () => {
+    expect(isPactOverwriteAllowed("a, b", "b")).toBe(true);
+    expect(isPactOverwriteAllowed("a, b", "c")).toBe(false);
+  });
+});
+
+describe("summarisePactDiff", () => {
+  it("reports added, removed and changed interactions by description + state", () => {
+    const before = pact([
+      { description: "get", providerState: "exists", response: { status: 200 } },
+      { description: "delete", response: { status: 204 } },
+    ]);
+    const after = pact([
+      { description: "get", providerState: "exists", response: { status: 201 } },
+      { description: "create", providerStates: [{ name: "empty" }] },
+    ]);
+    expect(summarisePactDiff(before, after)).toEqual({
+      interactionsAdded: ["create given empty"],
+      interactionsRemoved: ["delete"],
+      interactionsChanged: ["get given exists"],
+      metadataChanged: false,
+    });
+  });
+
+  it("flags metadata-only changes", () => {
+    const diff = summarisePactDiff(pact([], { a: 1 }), pact([], { a: 2 }));
+    expect(diff.metadataChanged).toBe(true);
+    expect(diff.interactionsChanged).toEqual([]);
+  });
+});
+
+describe("canonicalisePact", () => {
+  const paths = ignoredMetadataPaths(undefined);
+
+  it("is independent of key order", () => {
+    const a = { consumer: { name: "c" }, provider: { name: "p" }, interactions: [{ a: 1, b: 2 }] };
+    const b = { interactions: [{ b: 2, a: 1 }], provider: { name: "p" }, consumer: { name: "c" } };
+    expect(canonicalisePact(a, paths)).toBe(canonicalisePact(b as PactContent, paths));
+  });
+
+  it("normalises number spellings that parse to the same value", () => {
+    const a = JSON.parse('{"consumer":{"name":"c"},"provider":{"name":"p"},"interactions":[1.0]}');
+    const b = JSON.parse('{"consumer":{"name":"c"},"provider":{"name":"p"},"interactions":[1e0]}');
+    expect(canonicalisePact(a, paths)).toBe(canonicalisePact(b, paths));
+  });
+
+  it("drops library-version metadata but keeps the spec version", () => {
+    const a = pact([], { pactRust: { ffi: "0.4.0" }, pactSpecification: { version: "3.0.0" } });
+    const b = pact([], { pactRust: { ffi: "0.4.9" }, pactSpecification: { version: "3.0.0" } });
+    const c = pact([], { pactRust: { ffi: "0.4.0" }, pactSpecification: { version: "4.0" } });
+    expect(canonicalisePact(a, paths)).toBe(canonicalisePact(b, paths));
+    expect(canonicalisePact(a, paths)).not.toBe(canonicalisePact(c, paths));
+  });
+
+  it("honours configured nested paths", () => {
+    const custom = ignoredMetadataPaths("build.timestamp");
+    const a = pact([], { build: { timestamp: "1", id: "x" } });
+    const b = pact([], { build: { timestamp: "2", id: "x" } });
+    expect(canonicalisePact(a, custom)).toBe(canonicalisePact(b, custom));
+    expect(canonicalisePact(a, paths)).not.toBe(canonicalisePact(b, paths));
+  });
+});
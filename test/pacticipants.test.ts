@@ -0,0 +1,446 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { reqJson, authHeaders, publishPact, recordRelease, addBranchVersion } from "./helpers";
+
+function send(method: "PUT" | "PATCH", name: string, body: unknown) {
+  return reqJson(`/pacticipants/${name}`, {
+    method,
+    headers: authHeaders(undefined, { "Content-Type": "application/json" }),
+    body: JSON.stringify(body),
+  });
+}
+
+function pactCount(body: unknown): number {
+  return (body as { _embedded: { pacts: unknown[] } })._embedded.pacts.length;
+}
+
+describe("pacticipant metadata", () => {
+  it("PUT creates a pacticipant with its metadata", async () => {
+    const { status, body } = await send("PUT", "pm-new", {
+      displayName: "New Service",
+      mainBranch: "trunk",
+      repositoryUrl: "https://github.com/example/new-service",
+      repositoryName: "new-service",
+      repositoryNamespace: "example",
+      metadata: { team: "payments", tier: 1 },
+    });
+    expect(status).toBe(201);
+    expect(body).toMatchObject({
+      name: "pm-new",
+      displayName: "New Service",
+      mainBranch: "trunk",
+      repositoryUrl: "https://github.com/example/new-service",
+      repositoryName: "new-service",
+      repositoryNamespace: "example",
+      metadata: { team: "payments", tier: 1 },
+    });
+
+    const fetched = await reqJson("/pacticipants/pm-new", { headers: authHeaders() });
+    expect(fetched.body).toMatchObject({ mainBranch: "trunk", metadata: { team: "payments" } });
+  });
+
+  it("PUT replaces every field, clearing the ones left out", async () => {
+    await send("PUT", "pm-replace", { displayName: "Old", mainBranch: "master" });
+    const { status, body } = await send("PUT", "pm-replace", { repositoryName: "replace" });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      displayName: null,
+      mainBranch: "main",
+      repositoryName: "replace",
+    });
+  });
+
+  it("PATCH updates only the given fields", async () => {
+    await send("PUT", "pm-patch", { displayName: "Patch Me", mainBranch: "master" });
+    const { status, body } = await send("PATCH", "pm-patch", {
+      mainBranch: "trunk",
+      repositoryUrl: null,
+    });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      displayName: "Patch Me",
+      mainBranch: "trunk",
+      repositoryUrl: null,
+    });
+  });
+
+  it("PATCH answers 404 for an unknown pacticipant", async () => {
+    const { status } = await send("PATCH", "pm-missing", { displayName: "Nobody" });
+    expect(status).toBe(404);
+  });
+
+  it("rejects invalid fields", async () => {
+    const badUrl = await send("PUT", "pm-invalid", { repositoryUrl: "not a url" });
+    expect(badUrl.status).toBe(400);
+    expect((badUrl.body as { message: string }).message).toMatch(/^repositoryUrl:/);
+
+    const badBranch = await send("PATCH", "pm-new", { mainBranch: "bad branch" });
+    expect(badBranch.status).toBe(400);
+  });
+
+  it("drives the mainBranch consumer version selector", async () => {
+    await publishPact("pm-consumer", "pm-provider", "1.0.0", { branch: "trunk" });
+    const selectMain = () =>
+      reqJson("/pacts/provider/pm-provider/for-verification", {
+        method: "POST",
+        headers: authHeaders(undefined, { "Content-Type": "application/json" }),
+        body: JSON.stringify({ consumerVersionSelectors: [{ mainBranch: true }] }),
+      });
+
+    expect(pactCount((await selectMain()).body)).toBe(0);
+    await send("PATCH", "pm-consumer", { mainBranch: "trunk" });
+    expect(pactCount((await selectMain()).body)).toBe(1);
+  });
+});
+
+function label(method: "PUT" | "DELETE", name: string, labelName: string) {
+  return reqJson(`/pacticipants/${name}/labels/${labelName}`, {
+    method,
+    headers: authHeaders(),
+  });
+}
+
+function names(body: unknown): string[] {
+  return (body as { _embedded: { pacticipants: Array<{ name: string }> } })._embedded.pacticipants
+    .map((p) => p.name)
+    .sort();
+}
+
+describe("pacticipant labels", () => {
+  beforeAll(async () => {
+    await send("PUT", "pl-a", {});
+    await send("PUT", "pl-b", {});
+    await send("PUT", "pl-c", {});
+    await label("PUT", "pl-a", "pl-payments");
+    await label("PUT", "pl-b", "pl-payments");
+    await label("PUT", "pl-b", "pl-team-x");
+  });
+
+  it("PUT labels a pacticipant once", async () => {
+    const created = await label("PUT", "pl-c", "pl-new");
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ name: "pl-new" });
+    const again = await label("PUT", "pl-c", "pl-new");
+    expect(again.status).toBe(200);
+
+    const fetched = await reqJson("/pacticipants/pl-c/labels/pl-new", { headers: authHeaders() });
+    expect(fetched.status).toBe(200);
+  });
+
+  it("PUT answers 404 for an unknown pacticipant", async () => {
+    const { status } = await label("PUT", "pl-missing", "pl-payments");
+    expect(status).toBe(404);
+  });
+
+  it("DELETE removes a label", async () => {
+    await label("PUT", "pl-c", "pl-temporary");
+    expect((await label("DELETE", "pl-c", "pl-temporary")).status).toBe(204);
+    expect((await label("DELETE", "pl-c", "pl-temporary")).status).toBe(404);
+  });
+
+  it("links a pacticipant to its labels", async () => {
+    const { body } = await reqJson("/pacticipants/pl-b", { headers: authHeaders() });
+    const links = (body as { _links: { "pb:labels": Array<{ name: string; href: string }> } })
+      ._links["pb:labels"];
+    expect(links.map((l) => l.name)).toEqual(["pl-payments", "pl-team-x"]);
+    expect(links[0]!.href).toBe("https://test-host/pacticipants/pl-b/labels/pl-payments");
+  });
+
+  it("looks up pacticipants by label", async () => {
+    const byPath = await reqJson("/pacticipants/label/pl-payments", { headers: authHeaders() });
+    expect(names(byPath.body)).toEqual(["pl-a", "pl-b"]);
+
+    const byQuery = await reqJson("/pacticipants?label=pl-team-x", { headers: authHeaders() });
+    expect(names(byQuery.body)).toEqual(["pl-b"]);
+  });
+
+  it("rejects invalid label names", async () => {
+    const { status } = await reqJson("/pacticipants?label=bad%20label", {
+      headers: authHeaders(),
+    });
+    expect(status).toBe(400);
+  });
+});
+
+function versionNumbers(body: unknown): string[] {
+  return (body as { _embedded: { versions: Array<{ number: string }> } })._embedded.versions.map(
+    (v) => v.number,
+  );
+}
+
+describe("branches", () => {
+  beforeAll(async () => {
+    await publishPact("br-c", "br-p", "1.0.0", { branch: "main" });
+    await publishPact("br-c", "br-p", "2.0.0", { branch: "feature/x", description: "two" });
+    // The same version published again from a release branch
+    await publishPact("br-c", "br-p", "1.0.0", { branch: "release" });
+  });
+
+  it("lists a pacticipant's branches", async () => {
+    const { status, body } = await reqJson("/pacticipants/br-c/branches", {
+      headers: authHeaders(),
+    });
+    expect(status).toBe(200);
+    const branches = (body as { _embedded: { branches: Array<{ name: string }> } })._embedded
+      .branches;
+    expect(branches.map((b) => b.name)).toEqual(["feature/x", "main", "release"]);
+  });
+
+  it("keeps a version on every branch it was published on", async () => {
+    for (const branch of ["main", "release"]) {
+      const { body } = await reqJson(`/pacticipants/br-c/branches/${branch}/versions`, {
+        headers: authHeaders(),
+      });
+      expect(versionNumbers(body)).toEqual(["1.0.0"]);
+    }
+    const version = await reqJson("/pacticipants/br-c/versions/1.0.0", { headers: authHeaders() });
+    expect((version.body as { branch: string }).branch).toBe("main");
+  });
+
+  it("returns the latest version on a branch", async () => {
+    await publishPact("br-c", "br-p", "3.0.0", { branch: "main", description: "three" });
+    const { status, body } = await reqJson("/pacticipants/br-c/branches/main/latest-version", {
+      headers: authHeaders(),
+    });
+    expect(status).toBe(200);
+    expect((body as { number: string }).number).toBe("3.0.0");
+  });
+
+  it("selects pacts by any branch a version is on", async () => {
+    const { body } = await reqJson("/pacts/provider/br-p/for-verification", {
+      method: "POST",
+      headers: authHeaders(undefined, { "Content-Type": "application/json" }),
+      body: JSON.stringify({ consumerVersionSelectors: [{ branch: "release" }] }),
+    });
+    const pacts = (body as { _embedded: { pacts: Array<{ shortDescription: string }> } })._embedded
+      .pacts;
+    expect(pacts).toHaveLength(1);
+    expect(pacts[0]!.shortDescription).toContain("1.0.0");
+  });
+
+  it("deletes a branch but keeps its versions", async () => {
+    const branch = encodeURIComponent("feature/x");
+    const deleted = await reqJson(`/pacticipants/br-c/branches/${branch}`, {
+      method: "DELETE",
+      headers: authHeaders(),
+    });
+    expect(deleted.status).toBe(204);
+
+    const gone = await reqJson(`/pacticipants/br-c/branches/${branch}`, { headers: authHeaders() });
+    expect(gone.status).toBe(404);
+
+    const version = await reqJson("/pacticipants/br-c/versions/2.0.0", { headers: authHeaders() });
+    expect(version.status).toBe(200);
+    expect((version.body as { branch: string | null }).branch).toBeNull();
+  });
+
+  it("answers 404 for unknown branches", async () => {
+    for (const path of ["", "/versions", "/versions/1.0.0", "/latest-version"]) {
+      const { status } = await reqJson(`/pacticipants/br-c/branches/nope${path}`, {
+        headers: authHeaders(),
+      });
+      expect(status).toBe(404);
+    }
+  });
+
+  it("tells an empty branch apart from an unknown one", async () => {
+    await sendVersion("PUT", "br-e/versions/1.0.0", { branch: "old" });
+    await sendVersion("PATCH", "br-e/versions/1.0.0", { branch: "new" });
+
+    const { status, body } = await reqJson("/pacticipants/br-e/branches/old/latest-version", {
+      headers: authHeaders(),
+    });
+    expect(status).toBe(404);
+    expect((body as { message: string }).message).toBe("Branch has no versions");
+  });
+
+  it("puts a version on a branch, creating what is missing", async () => {
+    expect(await addBranchVersion("br-v", "main", "1.0.0")).toBe(201);
+    expect(await addBranchVersion("br-v", "main", "1.0.0")).toBe(200);
+    expect(await addBranchVersion("br-v", "release", "1.0.0")).toBe(201);
+
+    const { status, body } = await reqJson("/pacticipants/br-v/branches/release/versions/1.0.0", {
+      headers: authHeaders(),
+    });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({
+      branch: "release",
+      version: "1.0.0",
+      _links: {
+        "pb:branch": { href: "https://test-host/pacticipants/br-v/branches/release" },
+        "pb:version": { href: "https://test-host/pacticipants/br-v/versions/1.0.0" },
+      },
+    });
+
+    // The version keeps the branch it was first put on
+    const version = await reqJson("/pacticipants/br-v/versions/1.0.0", { headers: authHeaders() });
+    expect(version.body).toMatchObject({
+      branch: "main",
+      _links: {
+        "pb:branch-version": {
+          href: "https://test-host/pacticipants/br-v/branches/{branch}/versions/1.0.0",
+          templated: true,
+        },
+      },
+    });
+  });
+});
+
+function sendVersion(method: "PUT" | "PATCH", path: string, body: unknown) {
+  return reqJson(`/pacticipants/${path}`, {
+    method,
+    headers: authHeaders(undefined, { "Content-Type": "application/json" }),
+    body: JSON.stringify(body),
+  });
+}
+
+describe("version properties", () => {
+  it("PUT creates a version with its branch, build URL and metadata", async () => {
+    const { status, body } = await sendVersion("PUT", "vp-a/versions/1.0.0", {
+      branch: "main",
+      buildUrl: "https://ci.example/builds/1",
+      metadata: { commitMessage: "Initial commit", author: "dev@example.com" },
+    });
+    expect(status).toBe(201);
+    expect(body).toMatchObject({
+      number: "1.0.0",
+      branch: "main",
+      buildUrl: "https://ci.example/builds/1",
+      metadata: { commitMessage: "Initial commit", author: "dev@example.com" },
+    });
+
+    const onBranch = await reqJson("/pacticipants/vp-a/branches/main/versions", {
+      headers: authHeaders(),
+    });
+    expect(versionNumbers(onBranch.body)).toEqual(["1.0.0"]);
+  });
+
+  it("sets the branch of a version published without one", async () => {
+    await publishPact("vp-b", "vp-p", "1.0.0");
+    const { status, body } = await sendVersion("PATCH", "vp-b/versions/1.0.0", {
+      branch: "main",
+    });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ branch: "main" });
+
+    const latest = await reqJson("/pacticipants/vp-b/branches/main/latest-version", {
+      headers: authHeaders(),
+    });
+    expect((latest.body as { number: string }).number).toBe("1.0.0");
+  });
+
+  it("PUT replaces the build URL and metadata but keeps an omitted branch", async () => {
+    await sendVersion("PUT", "vp-c/versions/1.0.0", {
+      branch: "main",
+      buildUrl: "https://ci.example/builds/2",
+      metadata: { author: "a" },
+    });
+    const { status, body } = await sendVersion("PUT", "vp-c/versions/1.0.0", {
+      metadata: { author: "b" },
+    });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ branch: "main", buildUrl: null, metadata: { author: "b" } });
+  });
+
+  it("PATCH changes only the given fields", async () => {
+    await sendVersion("PUT", "vp-d/versions/1.0.0", { metadata: { author: "a" } });
+    const { body } = await sendVersion("PATCH", "vp-d/versions/1.0.0", {
+      buildUrl: "https://ci.example/builds/3",
+    });
+    expect(body).toMatchObject({
+      buildUrl: "https://ci.example/builds/3",
+      metadata: { author: "a" },
+    });
+  });
+
+  it("moves an unpublished version to another branch", async () => {
+    await sendVersion("PUT", "vp-e/versions/1.0.0", { branch: "feature-a" });
+    const { status, body } = await sendVersion("PATCH", "vp-e/versions/1.0.0", {
+      branch: "feature-b",
+    });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ branch: "feature-b" });
+
+    const old = await reqJson("/pacticipants/vp-e/branches/feature-a/versions", {
+      headers: authHeaders(),
+    });
+    expect(versionNumbers(old.body)).toEqual([]);
+  });
+
+  it("refuses to change the branch of a version with published pacts", async () => {
+    await publishPact("vp-f", "vp-p", "1.0.0", { branch: "main" });
+    const { status, body } = await sendVersion("PATCH", "vp-f/versions/1.0.0", {
+      branch: "other",
+    });
+    expect(status).toBe(409);
+    expect((body as { message: string }).message).toMatch(/already has branch 'main'/);
+  });
+
+  it("answers 404 for PATCH on an unknown version and 400 for invalid fields", async () => {
+    expect((await sendVersion("PATCH", "vp-a/versions/9.9.9", { buildUrl: null })).status).toBe(
+      404,
+    );
+    expect((await sendVersion("PUT", "vp-a/versions/1.0.0", { buildUrl: "nope" })).status).toBe(
+      400,
+    );
+  });
+});
+
+describe("released versions", () => {
+  beforeAll(async () => {
+    await publishPact("rv-app", "rv-api", "1.0.0");
+    await publishPact("rv-app", "rv-api", "2.0.0", { description: "two" });
+  });
+
+  it("keeps several versions supported in an environment at once", async () => {
+    expect(await recordRelease("rv-app", "1.0.0", "rv-store")).toBe(201);
+    expect(await recordRelease("rv-app", "2.0.0", "rv-store")).toBe(201);
+
+    for (const version of ["1.0.0", "2.0.0"]) {
+      const { body } = await reqJson(`/pacticipants/rv-app/versions/${version}/released`, {
+        headers: authHeaders(),
+      });
+      const releases = (body as { _embedded: { releases: Array<Record<string, unknown>> } })
+        ._embedded.releases;
+      expect(releases).toEqual([
+        expect.objectContaining({
+          environment: "rv-store",
+          supportEndedAt: null,
+          currentlySupported: true,
+        }),
+      ]);
+    }
+  });
+
+  it("records support ended", async () => {
+    await recordRelease("rv-app", "1.0.0", "rv-eol");
+    const ended = await reqJson("/pacticipants/rv-app/versions/1.0.0/released/rv-eol", {
+      method: "DELETE",
+      headers: authHeaders(),
+    });
+    expect(ended.status).toBe(204);
+
+    const { body } = await reqJson("/pacticipants/rv-app/versions/1.0.0/released", {
+      headers: authHeaders(),
+    });
+    const releases = (body as { _embedded: { releases: Array<Record<string, unknown>> } })._embedded
+      .releases;
+    expect(releases.find((r) => r.environment === "rv-eol")).toMatchObject({
+      currentlySupported: false,
+    });
+
+    const again = await reqJson("/pacticipants/rv-app/versions/1.0.0/released/rv-eol", {
+      method: "DELETE",
+      headers: authHeaders(),
+    });
+    expect(again.status).toBe(404);
+  });
+
+  it("answers 200 when the version is already released and supported", async () => {
+    expect(await recordRelease("rv-app", "1.0.0", "rv-again")).toBe(201);
+    expect(await recordRelease("rv-app", "1.0.0", "rv-again")).toBe(200);
+  });
+
+  it("answers 404 when releasing an unknown version", async () => {
+    expect(await recordRelease("rv-app", "9.9.9", "rv-store")).toBe(404);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { reqJson, authHeaders, publishPact } from "./helpers";
+
+// Runs under the `pact-overwrite` workspace project, where
+// ALLOW_PACT_OVERWRITE="ow-c1" opts a single consumer into overwrites.
+describe("pact overwrite (ALLOW_PACT_OVERWRITE)", () => {
+  it("allowed consumer: changed content updates in place (200)", async () => {
+    const first = await publishPact("ow-c1", "ow-p1", "1.0.0", { description: "one" });
+    const second = await publishPact("ow-c1", "ow-p1", "1.0.0", { description: "two" });
+    // Broker keeps one pact row per (consumer_version, provider) pair and
+    // updates its content; it doesn't create a second row. So 'created:false'
+    // → 200.
+    expect(second.status).toBe(200);
+    expect((second.body as { contentSha: string }).contentSha).not.toBe(
+      (first.body as { contentSha: string }).contentSha,
+    );
+    const retrieved = await reqJson("/pacts/provider/ow-p1/consumer/ow-c1/version/1.0.0", {
+      headers: authHeaders(),
+    });
+    const interactions = (retrieved.body as { interactions: Array<{ description: string }> })
+      .interactions;
+    expect(interactions[0]?.description).toBe("two");
+  });
+
+  it("consumer not on the list is still rejected with 409", async () => {
+    await publishPact("ow-c2", "ow-p1", "1.0.0", { description: "one" });
+    const second = await publishPact("ow-c2", "ow-p1", "1.0.0", { description: "two" });
+    expect(second.status).toBe(409);
+  });
+});
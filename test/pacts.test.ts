@@ -1,5 +1,13 @@
 import { describe, it, expect } from "vitest";
-import { req, reqJson, authHeaders, publishPact, tagVersion, samplePact } from "./helpers";
+import {
+  req,
+  reqJson,
+  authHeaders,
+  publishPact,
+  publishVerification,
+  tagVersion,
+  samplePact,
+} from "./helpers";
 
 describe("pact publish + retrieve", () => {
   it("publish minimal valid pact returns 201 with HAL body", async () => {
@@ -23,28 +31,60 @@ describe("pact publish + retrieve", () => {
     expect(status).toBe(200);
   });
 
-  it("re-publishing with different content for same version updates in-place (200)", async () => {
+  it("re-publishing with different content for same version is rejected with 409", async () => {
     const first = await publishPact("c3", "p3", "1.0.0", {
       description: "one",
     });
     const second = await publishPact("c3", "p3", "1.0.0", {
       description: "two",
     });
-    // Broker keeps one pact row per (consumer_version, provider) pair and
-    // updates its content; it doesn't create a second row. So 'created:false'
-    // → 200.
-    expect(second.status).toBe(200);
-    // Content SHA should differ between the two publishes.
-    expect((second.body as { contentSha: string }).contentSha).not.toBe(
-      (first.body as { contentSha: string }).contentSha,
-    );
-    // Retrieve should reflect the updated content.
+    expect(second.status).toBe(409);
+    expect(second.body).toMatchObject({
+      error: "Conflict",
+      conflicts: [
+        {
+          consumer: "c3",
+          provider: "p3",
+          consumerVersion: "1.0.0",
+          existingSha: (first.body as { contentSha: string }).contentSha,
+          diff: {
+            interactionsAdded: ["two"],
+            interactionsRemoved: ["one"],
+            interactionsChanged: [],
+            metadataChanged: false,
+          },
+        },
+      ],
+    });
+    // The stored content is left untouched.
     const retrieved = await reqJson("/pacts/provider/p3/consumer/c3/version/1.0.0", {
       headers: authHeaders(),
     });
     const interactions = (retrieved.body as { interactions: Array<{ description: string }> })
       .interactions;
-    expect(interactions[0]?.description).toBe("two");
+    expect(interactions[0]?.description).toBe("one");
+  });
+
+  it("re-publishing reordered content with new library metadata keeps the same SHA", async () => {
+    const first = await publishPact("c3b", "p3b", "1.0.0");
+    const pact = samplePact({ consumer: "c3b", provider: "p3b" });
+    const reordered = {
+      metadata: { ...(pact.metadata as object), pactRust: { ffi: "0.4.22" } },
+      interactions: pact.interactions,
+      provider: pact.provider,
+      consumer: pact.consumer,
+    };
+    const res = await reqJson("/pacts/provider/p3b/consumer/c3b/version/1.0.0", {
+      method: "PUT",
+      headers: authHeaders("test-token-0123456789abcdef", {
+        "Content-Type": "application/json",
+      }),
+      body: JSON.stringify(reordered),
+    });
+    expect(res.status).toBe(200);
+    expect((res.body as { contentSha: string }).contentSha).toBe(
+      (first.body as { contentSha: string }).contentSha,
+    );
   });
 
   it("publishing with ?branch= records the branch on the version", async () => {
@@ -203,3 +243,110 @@ describe("pact publish + retrieve", () => {
     expect(interactions[0]?.request.path).toBe("/specific-path");
   });
 });
+
+describe("pact versions shared across consumer versions", () => {
+  it("identical content published by two consumer versions shares one SHA", async () => {
+    const first = await publishPact("pv-c1", "pv-p1", "1.0.0");
+    const second = await publishPact("pv-c1", "pv-p1", "1.0.1");
+    expect(second.status).toBe(201);
+    expect(second.body.contentSha).toBe(first.body.contentSha);
+  });
+
+  it("one verification covers every consumer version with that content", async () => {
+    const { body } = await publishPact("pv-c2", "pv-p2", "1.0.0");
+    await publishPact("pv-c2", "pv-p2", "1.0.1");
+    const sha = body.contentSha as string;
+    expect(await publishVerification("pv-p2", "pv-c2", sha, true)).toBe(201);
+
+    for (const version of ["1.0.0", "1.0.1"]) {
+      const { body: matrix } = await reqJson(`/matrix?pacticipant=pv-c2&version=${version}`, {
+        headers: authHeaders(),
+      });
+      expect(matrix).toMatchObject({ summary: { deployable: true } });
+    }
+  });
+
+  it("retrieve by SHA reports the latest consumer version with that content", async () => {
+    const { body } = await publishPact("pv-c3", "pv-p3", "1.0.0");
+    await publishPact("pv-c3", "pv-p3", "2.0.0");
+    const { status, body: pact } = await reqJson(
+      `/pacts/provider/pv-p3/consumer/pv-c3/pact-version/${body.contentSha as string}`,
+      { headers: authHeaders() },
+    );
+    expect(status).toBe(200);
+    expect((pact as { consumerVersion: string }).consumerVersion).toBe("2.0.0");
+  });
+
+  it("rejects content naming a different consumer or provider than the URL", async () => {
+    await publishPact("pv-c6", "pv-p6", "1.0.0");
+    const { status, body } = await reqJson("/pacts/provider/pv-p6/consumer/pv-c7/version/1.0.0", {
+      method: "PUT",
+      headers: authHeaders(undefined, { "Content-Type": "application/json" }),
+      body: JSON.stringify(samplePact({ consumer: "pv-c6", provider: "pv-p6" })),
+    });
+    expect(status).toBe(400);
+    expect((body as { message: string }).message).toBe(
+      "consumer and provider names in the pact must match the URL",
+    );
+  });
+
+  it("publishing a verification for another pair's SHA returns 404", async () => {
+    const { body } = await publishPact("pv-c4", "pv-p4", "1.0.0");
+    await publishPact("pv-c5", "pv-p4", "1.0.0");
+    expect(await publishVerification("pv-p4", "pv-c5", body.contentSha as string, true)).toBe(404);
+  });
+});
+
+describe("message and v4 pacts", () => {
+  async function put(consumer: string, provider: string, pact: Record<string, unknown>) {
+    return req(`/pacts/provider/${provider}/consumer/${consumer}/version/1.0.0`, {
+      method: "PUT",
+      headers: authHeaders("test-token-0123456789abcdef", { "Content-Type": "application/json" }),
+      body: JSON.stringify(pact),
+    });
+  }
+
+  it("stores and returns a v3 message pact", async () => {
+    const res = await put("msg-c1", "msg-p1", {
+      consumer: { name: "msg-c1" },
+      provider: { name: "msg-p1" },
+      messages: [{ description: "an order created event", contents: { orderId: 1 } }],
+      metadata: { pactSpecification: { version: "3.0.0" } },
+    });
+    expect(res.status).toBe(201);
+
+    const { body } = await reqJson("/pacts/provider/msg-p1/consumer/msg-c1/version/1.0.0", {
+      headers: authHeaders(),
+    });
+    expect(body).toMatchObject({
+      specificationVersion: "3.0.0",
+      messages: [{ description: "an order created event" }],
+    });
+    expect(body).not.toHaveProperty("interactions");
+  });
+
+  it("accepts mixed v4 interaction types and infers the spec version", async () => {
+    const res = await put("msg-c2", "msg-p2", {
+      consumer: { name: "msg-c2" },
+      provider: { name: "msg-p2" },
+      interactions: [
+        { type: "Synchronous/HTTP", description: "get order", request: {}, response: {} },
+        { type: "Asynchronous/Messages", description: "order shipped", contents: {} },
+        { type: "Synchronous/Messages", description: "price query", request: {}, response: [] },
+      ],
+    });
+    expect(res.status).toBe(201);
+    const body = (await res.json()) as { specificationVersion: string; interactions: unknown[] };
+    expect(body.specificationVersion).toBe("4.0.0");
+    expect(body.interactions).toHaveLength(3);
+  });
+
+  it("rejects an interaction with an unknown v4 type", async () => {
+    const res = await put("msg-c3", "msg-p3", {
+      consumer: { name: "msg-c3" },
+      provider: { name: "msg-p3" },
+      interactions: [{ type: "Asynchronous/HTTP", description: "nope" }],
+    });
+    expect(res.status).toBe(400);
+  });
+});
@@ -6,6 +6,7 @@ import {
   branchSchema,
   shaSchema,
   environmentNameSchema,
+  environmentIdSchema,
   idSchema,
   parseId,
 } from "../src/lib/validation";
@@ -90,6 +91,25 @@ describe("environmentNameSchema", () => {
   it("rejects dots (stricter than nameSchema)", () => {
     expect(environmentNameSchema.safeParse("eu.prod").success).toBe(false);
   });
+
+  it("rejects UUID-shaped names", () => {
+    const result = environmentNameSchema.safeParse("3f2b1c9e-8d4a-4b6f-9e21-7c5d0a1b2c3d");
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0]?.message).toBe("Environment name cannot be a UUID");
+  });
+});
+
+describe("environmentIdSchema", () => {
+  it("accepts UUIDs and names", () => {
+    expect(environmentIdSchema.safeParse("3f2b1c9e-8d4a-4b6f-9e21-7c5d0a1b2c3d").success).toBe(
+      true,
+    );
+    expect(environmentIdSchema.safeParse("production").success).toBe(true);
+  });
+
+  it("rejects anything else", () => {
+    expect(environmentIdSchema.safeParse("bad name").success).toBe(false);
+  });
 });
 
 describe("idSchema + parseId", () => {
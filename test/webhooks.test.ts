@@ -127,6 +127,33 @@ describe("webhooks", () => {
     expect(executions[0]!.event).toBe("provider_verification_published");
   });
 
+  it("scopes by provider label", async () => {
+    for (const name of ["wl-labelled", "wl-unlabelled"]) {
+      await req(`/pacticipants/${name}`, {
+        method: "PUT",
+        headers: authHeaders(undefined, { "Content-Type": "application/json" }),
+        body: "{}",
+      });
+    }
+    await req("/pacticipants/wl-labelled/labels/wl-payments", {
+      method: "PUT",
+      headers: authHeaders(),
+    });
+    const created = await createWebhook({
+      events: ["contract_published"],
+      url: "https://webhook.example/hook",
+      providerLabel: "wl-payments",
+    });
+    expect(created.body.providerLabel).toBe("wl-payments");
+    const id = created.body.id as number;
+
+    await publishPact("wl-consumer", "wl-unlabelled", "1.0.0");
+    await publishPact("wl-consumer", "wl-labelled", "1.0.0");
+
+    const executions = await waitForExecutions(id, 1);
+    expect(executions).toHaveLength(1);
+  });
+
   it("manual /execute fires the webhook even without pact activity", async () => {
     const created = await createWebhook({
       events: ["contract_published"],
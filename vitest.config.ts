@@ -1,9 +1,9 @@
 import { defineWorkersConfig } from "@cloudflare/vitest-pool-workers/config";
 
-// Three projects so we can exercise auth edge cases that need distinct
-// miniflare bindings (ALLOW_PUBLIC_READ=true, misconfigured token). The
-// default project excludes those test files so they only run under their
-// targeted bindings.
+// Separate projects so we can exercise edge cases that need distinct
+// miniflare bindings (ALLOW_PUBLIC_READ=true, misconfigured token,
+// ALLOW_PACT_OVERWRITE, CAN_I_DEPLOY_HTTP_STATUS). The default project
+// excludes those test files so they only run under their targeted bindings.
 const DEFAULT_BINDINGS = {
   PACT_BROKER_TOKEN: "test-token-0123456789abcdef",
   ALLOW_PUBLIC_READ: "false",
@@ -1,14 +1,20 @@
 import { defineWorkersProject } from "@cloudflare/vitest-pool-workers/config";
 import { DEFAULT_BINDINGS } from "./vitest.config";
 
-// Three projects so we can exercise auth edge cases that need distinct
-// miniflare bindings (ALLOW_PUBLIC_READ=true, misconfigured token).
+// Separate projects so we can exercise edge cases that need distinct
+// miniflare bindings (ALLOW_PUBLIC_READ=true, misconfigured token,
+// ALLOW_PACT_OVERWRITE, CAN_I_DEPLOY_HTTP_STATUS).
 export default [
   defineWorkersProject({
     test: {
       name: "default",
       include: ["test/**/*.test.ts"],
-      exclude: ["test/auth.public-read.test.ts", "test/auth.bad-token.test.ts"],
+      exclude: [
+        "test/auth.public-read.test.ts",
+        "test/auth.bad-token.test.ts",
+        "test/pacts.overwrite.test.ts",
+        "test/matrix.http-status.test.ts",
+      ],
       poolOptions: {
         workers: {
           wrangler: { configPath: "./wrangler.jsonc" },
@@ -51,4 +57,38 @@ export default [
       },
     },
   }),
+  defineWorkersProject({
+    test: {
+      name: "pact-overwrite",
+      include: ["test/pacts.overwrite.test.ts"],
+      poolOptions: {
+        workers: {
+          wrangler: { configPath: "./wrangler.jsonc" },
+          miniflare: {
+            bindings: {
+              ...DEFAULT_BINDINGS,
+              ALLOW_PACT_OVERWRITE: "ow-c1",
+            },
+          },
+        },
+      },
+    },
+  }),
+  defineWorkersProject({
+    test: {
+      name: "can-i-deploy-status",
+      include: ["test/matrix.http-status.test.ts"],
+      poolOptions: {
+        workers: {
+          wrangler: { configPath: "./wrangler.jsonc" },
+          miniflare: {
+            bindings: {
+              ...DEFAULT_BINDINGS,
+              CAN_I_DEPLOY_HTTP_STATUS: "by-result",
+            },
+          },
+        },
+      },
+    },
+  }),
 ];